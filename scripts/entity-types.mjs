@@ -0,0 +1,125 @@
+// Schema-to-type mapping of the mitra-entity-types generator.
+import { columnType, pascalCase, propertyKey, renderProperty } from './schema-types.mjs';
+
+const relationTypes = new Set(['one', 'many']);
+
+function readRelations(table, tableNames) {
+  if (table.relations === undefined) return [];
+  if (!table.relations || typeof table.relations !== 'object' || Array.isArray(table.relations)) {
+    throw new Error(`table ${table.name} has a "relations" field that is not an object`);
+  }
+  return Object.entries(table.relations).map(([name, relation]) => {
+    const path = `${table.name}.relations.${name}`;
+    if (!relationTypes.has(relation?.type)) throw new Error(`${path} must have type one or many`);
+    if (typeof relation.field !== 'string' || !relation.field) {
+      throw new Error(`${path} has no field`);
+    }
+    const related = tableNames.get(relation.table);
+    if (!related) throw new Error(`${path} refers to unknown table ${relation.table}`);
+    const one = relation.type === 'one';
+    return { name, type: one ? `${related}Row` : `${related}Row[]`, nullable: one };
+  });
+}
+
+/**
+ * Reads the tables of a schema export.
+ * @throws {Error} When the schema is not a valid table schema export.
+ */
+export function readTables(schema) {
+  const tables = Array.isArray(schema) ? schema : schema?.tables;
+  if (!Array.isArray(tables)) {
+    throw new Error('schema must be an array of tables or have a "tables" array');
+  }
+
+  const tableNames = new Map();
+  tables.forEach((table, index) => {
+    if (typeof table?.name !== 'string' || !table.name) {
+      throw new Error(`tables[${index}] has no name`);
+    }
+    const name = pascalCase(table.name, 'Table');
+    if ([...tableNames.values()].includes(name)) {
+      throw new Error(`tables ${table.name} and another table both map to ${name}`);
+    }
+    tableNames.set(table.name, name);
+  });
+
+  return tables.map((table) => {
+    if (!Array.isArray(table.columns)) {
+      throw new Error(`table ${table.name} has no "columns" array`);
+    }
+    const columns = table.columns.map((column, columnIndex) => {
+      const path = `${table.name}.${column?.name ?? `columns[${columnIndex}]`}`;
+      if (typeof column?.name !== 'string' || !column.name) throw new Error(`${path} has no name`);
+      return {
+        name: column.name,
+        type: columnType(column, path, 'mitra-entity-types'),
+        nullable: column.nullable === true,
+        writable:
+          column.readOnly !== true && !(column.primaryKey === true && column.hasDefault === true),
+        optional: column.nullable === true || column.hasDefault === true,
+        description: typeof column.description === 'string' ? column.description : undefined,
+      };
+    });
+    return {
+      tableName: table.name,
+      name: tableNames.get(table.name),
+      columns,
+      relations: readRelations(table, tableNames),
+    };
+  });
+}
+
+/** Renders the declaration file for tables returned by `readTables`. */
+export function renderEntityTypes(tables, source) {
+  const blocks = tables.map(({ tableName, name, columns, relations }) => {
+    const label = JSON.stringify(tableName);
+    const row = columns.map((column) => renderProperty(column, false));
+    const create = columns
+      .filter((column) => column.writable)
+      .map((column) => renderProperty(column, column.optional));
+    const relationBlock =
+      relations.length > 0
+        ? [
+            '',
+            `/** Relations of the ${label} table that \`expand\` nests. */`,
+            `export interface ${name}Relations {`,
+            ...relations.map((relation) => renderProperty(relation, false)),
+            '}',
+          ]
+        : [];
+    return [
+      `/** Record of the ${label} table. */`,
+      `export interface ${name}Row {`,
+      ...row,
+      '}',
+      '',
+      `/** Input accepted when creating records in the ${label} table. */`,
+      `export interface ${name}CreateInput {`,
+      ...create,
+      '}',
+      '',
+      `/** Input accepted when updating records in the ${label} table. */`,
+      `export type ${name}UpdateInput = Partial<${name}CreateInput>;`,
+      ...relationBlock,
+    ].join('\n');
+  });
+
+  const registrations = tables.map(({ tableName, name, relations }) => {
+    const types = [`${name}Row`, `${name}CreateInput`, `${name}UpdateInput`];
+    if (relations.length > 0) types.push(`${name}Relations`);
+    return `    ${propertyKey(tableName)}: EntitySchema<${types.join(', ')}>;`;
+  });
+
+  return [
+    `// Generated by mitra-entity-types from ${source}. Do not edit.`,
+    "import type { EntitySchema } from '@mitralab.io/platform-sdk';",
+    '',
+    ...blocks.flatMap((block) => [block, '']),
+    "declare module '@mitralab.io/platform-sdk' {",
+    '  interface EntitySchemas {',
+    ...registrations,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
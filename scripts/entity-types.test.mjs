@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readTables, renderEntityTypes } from './entity-types.mjs';
+import { columnType, pascalCase, propertyKey, renderProperty } from './schema-types.mjs';
+
+function generate(schema) {
+  return renderEntityTypes(readTables(schema), 'schema.json');
+}
+
+describe('schema types', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should map column types and enums', () => {
+    expect(columnType({ type: 'UUID' }, 'Task.id', 'tool')).toBe('string');
+    expect(columnType({ type: 'bigint' }, 'Task.count', 'tool')).toBe('number');
+    expect(columnType({ type: 'bool' }, 'Task.done', 'tool')).toBe('boolean');
+    expect(columnType({ type: 'jsonb' }, 'Task.meta', 'tool')).toBe('Record<string, unknown>');
+    expect(columnType({ type: 'text', enum: ['open', 'done'] }, 'Task.status', 'tool')).toBe(
+      '"open" | "done"',
+    );
+  });
+
+  it('should fall back to unknown with a warning for unknown types', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(columnType({ type: 'geometry' }, 'Place.area', 'tool')).toBe('unknown');
+    expect(warn).toHaveBeenCalledWith('tool: Place.area has unknown type geometry; using unknown');
+  });
+
+  it('should quote property names that are not identifiers', () => {
+    expect(propertyKey('firstName')).toBe('firstName');
+    expect(propertyKey('first name')).toBe('"first name"');
+    expect(propertyKey('2fa')).toBe('"2fa"');
+  });
+
+  it('should build type names and prefix names that start with a digit', () => {
+    expect(pascalCase('order_items', 'Table')).toBe('OrderItems');
+    expect(pascalCase('2024 sales', 'Table')).toBe('Table2024Sales');
+  });
+
+  it('should render nullable and optional properties and escape descriptions', () => {
+    const property = { name: 'due', type: 'string', nullable: true, description: 'Ends */ here' };
+
+    expect(renderProperty(property, true)).toBe(
+      '  /** Ends *\\/ here */\n  due?: string | null;',
+    );
+    expect(renderProperty({ name: 'title', type: 'string' }, false)).toBe('  title: string;');
+  });
+});
+
+describe('entity types', () => {
+  it('should leave read-only columns and defaulted primary keys out of the inputs', () => {
+    const output = generate({
+      tables: [
+        {
+          name: 'Task',
+          columns: [
+            { name: 'id', type: 'uuid', primaryKey: true, hasDefault: true },
+            { name: 'title', type: 'text' },
+            { name: 'status', type: 'text', enum: ['open', 'done'], hasDefault: true },
+            { name: 'due', type: 'date', nullable: true },
+            { name: 'createdAt', type: 'timestamptz', readOnly: true },
+          ],
+        },
+      ],
+    });
+
+    expect(output).toContain(
+      [
+        'export interface TaskRow {',
+        '  id: string;',
+        '  title: string;',
+        '  status: "open" | "done";',
+        '  due: string | null;',
+        '  createdAt: string;',
+        '}',
+      ].join('\n'),
+    );
+    expect(output).toContain(
+      [
+        'export interface TaskCreateInput {',
+        '  title: string;',
+        '  status?: "open" | "done";',
+        '  due?: string | null;',
+        '}',
+      ].join('\n'),
+    );
+    expect(output).toContain('export type TaskUpdateInput = Partial<TaskCreateInput>;');
+    expect(output).toContain('    Task: EntitySchema<TaskRow, TaskCreateInput, TaskUpdateInput>;');
+  });
+
+  it('should quote table and column names that are not identifiers', () => {
+    const output = generate([
+      { name: 'order items', columns: [{ name: 'unit price', type: 'numeric' }] },
+    ]);
+
+    expect(output).toContain('export interface OrderItemsRow {\n  "unit price": number;\n}');
+    expect(output).toContain('    "order items": EntitySchema<OrderItemsRow, OrderItemsCreate');
+  });
+
+  it('should type relations and register them on the schema', () => {
+    const output = generate([
+      {
+        name: 'Order',
+        columns: [{ name: 'customerId', type: 'uuid', nullable: true }],
+        relations: {
+          customer: { type: 'one', table: 'customers', field: 'customerId' },
+          items: { type: 'many', table: 'order_items', field: 'orderId' },
+        },
+      },
+      { name: 'customers', columns: [{ name: 'id', type: 'uuid' }] },
+      { name: 'order_items', columns: [{ name: 'orderId', type: 'uuid' }] },
+    ]);
+
+    expect(output).toContain(
+      [
+        'export interface OrderRelations {',
+        '  customer: CustomersRow | null;',
+        '  items: OrderItemsRow[];',
+        '}',
+      ].join('\n'),
+    );
+    expect(output).toContain(
+      '    Order: EntitySchema<OrderRow, OrderCreateInput, OrderUpdateInput, OrderRelations>;',
+    );
+    expect(output).not.toContain('CustomersRelations');
+  });
+
+  it.each([
+    [{ tables: 'Task' }, 'schema must be an array of tables or have a "tables" array'],
+    [[{ columns: [] }], 'tables[0] has no name'],
+    [[{ name: 'Task' }], 'table Task has no "columns" array'],
+    [
+      [
+        { name: 'order_items', columns: [] },
+        { name: 'order-items', columns: [] },
+      ],
+      'tables order-items and another table both map to OrderItems',
+    ],
+    [[{ name: 'Task', columns: [{ type: 'text' }] }], 'Task.columns[0] has no name'],
+    [
+      [{ name: 'Task', columns: [], relations: [] }],
+      'table Task has a "relations" field that is not an object',
+    ],
+    [
+      [{ name: 'Task', columns: [], relations: { owner: { type: 'some', table: 'Task' } } }],
+      'Task.relations.owner must have type one or many',
+    ],
+    [
+      [{ name: 'Task', columns: [], relations: { owner: { type: 'one', table: 'Task' } } }],
+      'Task.relations.owner has no field',
+    ],
+    [
+      [
+        {
+          name: 'Task',
+          columns: [],
+          relations: { owner: { type: 'one', table: 'User', field: 'ownerId' } },
+        },
+      ],
+      'Task.relations.owner refers to unknown table User',
+    ],
+  ])('should reject an invalid schema %#', (schema, message) => {
+    expect(() => readTables(schema)).toThrow(message);
+  });
+});
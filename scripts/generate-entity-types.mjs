@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import process from 'node:process';
+import { readTables, renderEntityTypes } from './entity-types.mjs';
+
+const usage = `Usage: mitra-entity-types <schema.json> [--out <file.d.ts>]
+
+Reads a Data Manager table schema export and writes a declaration file that
+registers one typed table per entry in EntitySchemas.
+
+The schema is an array of tables, or an object with a "tables" array:
+
+  { "tables": [{ "name": "Task", "columns": [
+    { "name": "id", "type": "uuid", "primaryKey": true, "hasDefault": true },
+    { "name": "title", "type": "text" },
+    { "name": "status", "type": "text", "enum": ["open", "done"], "hasDefault": true },
+    { "name": "parentId", "type": "uuid", "nullable": true }
+  ], "relations": {
+    "parent": { "type": "one", "table": "Task", "field": "parentId" }
+  } }] }
+
+Columns that are read-only, or primary keys with a default, are left out of the
+create and update inputs. Nullable columns and columns with a default are optional.
+Relations point at other tables of the schema and type the records expand nests.`;
+
+function fail(message) {
+  console.error(`mitra-entity-types: ${message}`);
+  process.exit(1);
+}
+
+function parseArguments(argv) {
+  const options = { input: undefined, out: undefined };
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === '--help' || argument === '-h') {
+      console.log(usage);
+      process.exit(0);
+    } else if (argument === '--out' || argument === '-o') {
+      options.out = argv[++index];
+      if (!options.out) fail('--out expects a file path');
+    } else if (!options.input) {
+      options.input = argument;
+    } else {
+      fail(`unexpected argument ${argument}\n\n${usage}`);
+    }
+  }
+  if (!options.input) fail(`missing schema file\n\n${usage}`);
+  return options;
+}
+
+const options = parseArguments(process.argv.slice(2));
+let schema;
+try {
+  schema = JSON.parse(readFileSync(options.input, 'utf8'));
+} catch (error) {
+  fail(`cannot read ${options.input}: ${error.message}`);
+}
+
+let output;
+try {
+  output = renderEntityTypes(readTables(schema), options.input.split(/[\\/]/).pop());
+} catch (error) {
+  fail(error.message);
+}
+if (options.out) {
+  writeFileSync(options.out, output);
+} else {
+  process.stdout.write(output);
+}
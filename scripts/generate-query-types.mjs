@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import process from 'node:process';
+import { columnType, pascalCase, propertyKey, renderProperty } from './schema-types.mjs';
+
+const usage = `Usage: mitra-query-types <queries.json> [--out <file.ts>]
+
+Reads a custom query manifest and writes a module with the parameter and row
+types of every query and a defineQueries(mitra.queries) function returning
+one typed executor per query.
+
+The manifest is an array of queries, or an object with a "queries" array:
+
+  { "queries": [{ "id": "active-tasks", "description": "Open tasks by owner",
+    "parameters": [
+      { "name": "owner", "type": "uuid" },
+      { "name": "limit", "type": "integer", "required": false }
+    ],
+    "columns": [
+      { "name": "id", "type": "uuid" },
+      { "name": "title", "type": "text" },
+      { "name": "due", "type": "date", "nullable": true }
+    ] }] }
+
+Executors are named after the query ID in camelCase unless a query sets "name".
+Parameters are required unless they set "required": false.`;
+
+const identifierPattern = /^[A-Za-z_$][\w$]*$/;
+
+function fail(message) {
+  console.error(`mitra-query-types: ${message}`);
+  process.exit(1);
+}
+
+function parseArguments(argv) {
+  const options = { input: undefined, out: undefined };
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    if (argument === '--help' || argument === '-h') {
+      console.log(usage);
+      process.exit(0);
+    } else if (argument === '--out' || argument === '-o') {
+      options.out = argv[++index];
+      if (!options.out) fail('--out expects a file path');
+    } else if (!options.input) {
+      options.input = argument;
+    } else {
+      fail(`unexpected argument ${argument}\n\n${usage}`);
+    }
+  }
+  if (!options.input) fail(`missing manifest file\n\n${usage}`);
+  return options;
+}
+
+function readProperties(entries, path, kind) {
+  if (entries === undefined) return [];
+  if (!Array.isArray(entries)) fail(`${path} has a "${kind}" field that is not an array`);
+  return entries.map((entry, index) => {
+    const entryPath = `${path}.${entry?.name ?? `${kind}[${index}]`}`;
+    if (typeof entry?.name !== 'string' || !entry.name) fail(`${entryPath} has no name`);
+    return {
+      name: entry.name,
+      type: columnType(entry, entryPath, 'mitra-query-types'),
+      nullable: entry.nullable === true,
+      optional: entry.required === false,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+    };
+  });
+}
+
+function readQueries(manifest) {
+  const queries = Array.isArray(manifest) ? manifest : manifest?.queries;
+  if (!Array.isArray(queries)) {
+    fail('manifest must be an array of queries or have a "queries" array');
+  }
+
+  const typeNames = new Set();
+  const executorNames = new Set();
+  return queries.map((query, index) => {
+    if (typeof query?.id !== 'string' || !query.id) fail(`queries[${index}] has no id`);
+    const typeName = pascalCase(query.name ?? query.id, 'Query');
+    const executor =
+      typeof query.name === 'string' ? query.name : typeName[0].toLowerCase() + typeName.slice(1);
+    if (!identifierPattern.test(executor)) {
+      fail(`query ${query.id} has an invalid name ${executor}`);
+    }
+    if (typeNames.has(typeName) || executorNames.has(executor)) {
+      fail(`query ${query.id} and another query both map to ${executor}`);
+    }
+    typeNames.add(typeName);
+    executorNames.add(executor);
+    if (!Array.isArray(query.columns)) fail(`query ${query.id} has no "columns" array`);
+
+    return {
+      id: query.id,
+      typeName,
+      executor,
+      description: typeof query.description === 'string' ? query.description : undefined,
+      parameters: readProperties(query.parameters, query.id, 'parameters'),
+      columns: readProperties(query.columns, query.id, 'columns'),
+    };
+  });
+}
+
+function render(queries, source) {
+  const blocks = queries.map(({ id, typeName, parameters, columns }) => {
+    const params =
+      parameters.length > 0
+        ? [
+            `export interface ${typeName}Params {`,
+            ...parameters.map((parameter) => renderProperty(parameter, parameter.optional)),
+            '}',
+          ]
+        : [`export type ${typeName}Params = Record<string, never>;`];
+    return [
+      `/** Parameters of the ${JSON.stringify(id)} query. */`,
+      ...params,
+      '',
+      `/** Row returned by the ${JSON.stringify(id)} query. */`,
+      `export interface ${typeName}Row {`,
+      ...columns.map((column) => renderProperty(column, false)),
+      '}',
+    ].join('\n');
+  });
+
+  const members = queries.flatMap(({ typeName, executor, description }) => [
+    ...(description ? [`  /** ${description.replace(/\*\//g, '*\\/')} */`] : []),
+    `  ${propertyKey(executor)}: TypedQuery<${typeName}Params, ${typeName}Row>;`,
+  ]);
+  const executors = queries.map(
+    ({ id, typeName, executor }) =>
+      `    ${propertyKey(executor)}: queries.defineQuery<${typeName}Params, ${typeName}Row>(` +
+      `${JSON.stringify(id)}),`
+  );
+
+  return [
+    `// Generated by mitra-query-types from ${source}. Do not edit.`,
+    "import type { QueriesModule, TypedQuery } from '@mitralab.io/platform-sdk';",
+    '',
+    ...blocks.flatMap((block) => [block, '']),
+    `/** Typed executors for the custom queries of ${source}. */`,
+    'export interface Queries {',
+    ...members,
+    '}',
+    '',
+    '/** Creates the typed executors, for example with `defineQueries(mitra.queries)`. */',
+    'export function defineQueries(queries: QueriesModule): Queries {',
+    '  return {',
+    ...executors,
+    '  };',
+    '}',
+    '',
+  ].join('\n');
+}
+
+const options = parseArguments(process.argv.slice(2));
+let manifest;
+try {
+  manifest = JSON.parse(readFileSync(options.input, 'utf8'));
+} catch (error) {
+  fail(`cannot read ${options.input}: ${error.message}`);
+}
+
+const output = render(readQueries(manifest), options.input.split(/[\\/]/).pop());
+if (options.out) {
+  writeFileSync(options.out, output);
+} else {
+  process.stdout.write(output);
+}
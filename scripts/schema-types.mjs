@@ -0,0 +1,44 @@
+// Helpers shared by the mitra-entity-types and mitra-query-types generators.
+
+const scalarTypes = new Map([
+  ...['text', 'string', 'varchar', 'char', 'uuid', 'date', 'time', 'datetime', 'timestamp',
+    'timestamptz', 'email', 'url'].map((type) => [type, 'string']),
+  ...['integer', 'int', 'bigint', 'smallint', 'number', 'numeric', 'decimal', 'float',
+    'double', 'real'].map((type) => [type, 'number']),
+  ...['boolean', 'bool'].map((type) => [type, 'boolean']),
+  ...['json', 'jsonb', 'object'].map((type) => [type, 'Record<string, unknown>']),
+  ['array', 'unknown[]'],
+]);
+
+const identifierPattern = /^[A-Za-z_$][\w$]*$/;
+
+export function propertyKey(name) {
+  return identifierPattern.test(name) ? name : JSON.stringify(name);
+}
+
+export function pascalCase(name, prefix) {
+  const words = name.match(/[A-Za-z0-9]+/g) ?? [];
+  const result = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[A-Za-z]/.test(result) ? result : `${prefix}${result}`;
+}
+
+/** TypeScript type of a column or parameter; `tool` prefixes the warning. */
+export function columnType(column, path, tool) {
+  if (Array.isArray(column.enum) && column.enum.length > 0) {
+    return column.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+  const type = scalarTypes.get(String(column.type ?? '').toLowerCase());
+  if (!type) {
+    console.warn(`${tool}: ${path} has unknown type ${column.type}; using unknown`);
+    return 'unknown';
+  }
+  return type;
+}
+
+export function renderProperty(property, optional) {
+  const description = property.description?.replace(/\*\//g, '*\\/');
+  const lines = description ? [`  /** ${description} */`] : [];
+  const type = property.nullable ? `${property.type} | null` : property.type;
+  lines.push(`  ${propertyKey(property.name)}${optional ? '?' : ''}: ${type};`);
+  return lines.join('\n');
+}
@@ -7,6 +7,19 @@ import process from 'node:process';
 const consumerDirectory = mkdtempSync(join(tmpdir(), 'mitra-platform-sdk-smoke-'));
 const typeScriptCompiler = join(process.cwd(), 'node_modules', 'typescript', 'bin', 'tsc');
 const coreTarball = process.env.MITRA_SDK_CORE_TARBALL;
+const expectedExports = JSON.stringify([
+  'MitraApiError',
+  'avg',
+  'count',
+  'createClient',
+  'createIndexedDBStorage',
+  'createLocalStorage',
+  'createMemoryStorage',
+  'createSessionStorage',
+  'max',
+  'min',
+  'sum',
+]);
 
 try {
   const packOutput = execFileSync(
@@ -25,6 +38,10 @@ try {
     'dist/index.d.ts',
     'dist/index.js',
     'package.json',
+    'scripts/entity-types.mjs',
+    'scripts/generate-entity-types.mjs',
+    'scripts/generate-query-types.mjs',
+    'scripts/schema-types.mjs',
   ]) {
     if (!packedFiles.has(expectedFile)) {
       throw new Error(`Package is missing ${expectedFile}`);
@@ -49,26 +66,72 @@ try {
     { cwd: consumerDirectory, stdio: 'inherit' }
   );
 
+  writeFileSync(
+    join(consumerDirectory, 'schema.json'),
+    JSON.stringify({
+      tables: [
+        {
+          name: 'Task',
+          columns: [
+            { name: 'id', type: 'uuid', primaryKey: true, hasDefault: true },
+            { name: 'title', type: 'text' },
+            { name: 'done', type: 'boolean', hasDefault: true },
+          ],
+        },
+      ],
+    })
+  );
+  execFileSync(
+    join(consumerDirectory, 'node_modules', '.bin', 'mitra-entity-types'),
+    ['schema.json', '--out', 'entities.d.mts'],
+    { cwd: consumerDirectory, stdio: 'inherit' }
+  );
+
+  writeFileSync(
+    join(consumerDirectory, 'queries.json'),
+    JSON.stringify({
+      queries: [
+        {
+          id: 'open-tasks',
+          parameters: [{ name: 'owner', type: 'uuid' }],
+          columns: [{ name: 'title', type: 'text' }],
+        },
+      ],
+    })
+  );
+  execFileSync(
+    join(consumerDirectory, 'node_modules', '.bin', 'mitra-query-types'),
+    ['queries.json', '--out', 'queries.mts'],
+    { cwd: consumerDirectory, stdio: 'inherit' }
+  );
+
   writeFileSync(
     join(consumerDirectory, 'consumer.mts'),
     `import {
   createClient,
+  createMemoryStorage,
   MitraApiError,
   type EntityTable,
   type FunctionExecution,
   type MitraClient,
+  type MitraErrorCode,
   type ProxyInput,
   type QueryResult,
+  type StorageAdapter,
   type User,
 } from "@mitralab.io/platform-sdk"
+import type { TaskRow } from "./entities.mjs"
+import { defineQueries } from "./queries.mjs"
 
-const client: MitraClient = createClient({ appId: "app", apiUrl: "https://api.example.com" })
+const storage: StorageAdapter = createMemoryStorage()
+const client: MitraClient = createClient({ appId: "app", apiUrl: "https://api.example.com", storage })
 const user: User = { id: "user", tenantId: "tenant", email: "user@example.com", name: null }
 const query: QueryResult = { rows: [], affectedRows: null }
 const proxy: ProxyInput = { method: "GET", endpoint: "/", queryParams: { limit: "10" } }
 const table: EntityTable = client.entities.getTable("Task")
 const execution: FunctionExecution | undefined = undefined
 const error = new MitraApiError("message", 400, "CODE", {})
+const code: MitraErrorCode = "NETWORK_ERROR"
 
 void client.auth.currentUser
 void client.auth.isAuthenticated
@@ -80,11 +143,21 @@ client.auth.signOut()
 client.auth.redirectToLogin()
 void client.init()
 void client.functions.execute("function-id")
+const tasks: Promise<TaskRow[]> = client.entities.Task.list()
+void client.entities.Task.create({ title: "Typed" })
+// @ts-expect-error title is required by the generated create input
+void client.entities.Task.create({ done: true })
+const titles: Promise<string[]> = defineQueries(client.queries)
+  .openTasks.execute({ owner: "user" })
+  .then(({ rows }) => rows.map((row) => row.title))
+void titles
+void tasks
 void table
 void query
 void proxy
 void execution
 void error
+void code
 `
   );
   writeFileSync(
@@ -117,6 +190,8 @@ void error
       'NodeNext',
       'consumer.mts',
       'consumer.cts',
+      'entities.d.mts',
+      'queries.mts',
     ],
     { cwd: consumerDirectory, stdio: 'inherit' }
   );
@@ -125,7 +200,7 @@ void error
     [
       '--input-type=module',
       '--eval',
-      'import * as sdk from "@mitralab.io/platform-sdk"; const keys = Object.keys(sdk).sort(); if (JSON.stringify(keys) !== JSON.stringify(["MitraApiError", "createClient"])) process.exit(1)',
+      `import * as sdk from "@mitralab.io/platform-sdk"; const keys = Object.keys(sdk).sort(); if (JSON.stringify(keys) !== ${JSON.stringify(expectedExports)}) process.exit(1)`,
     ],
     { cwd: consumerDirectory, stdio: 'inherit' }
   );
@@ -133,7 +208,7 @@ void error
     process.execPath,
     [
       '--eval',
-      'const sdk = require("@mitralab.io/platform-sdk"); const keys = Object.keys(sdk).sort(); if (JSON.stringify(keys) !== JSON.stringify(["MitraApiError", "createClient"])) process.exit(1)',
+      `const sdk = require("@mitralab.io/platform-sdk"); const keys = Object.keys(sdk).sort(); if (JSON.stringify(keys) !== ${JSON.stringify(expectedExports)}) process.exit(1)`,
     ],
     { cwd: consumerDirectory, stdio: 'inherit' }
   );
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { createClient } from './client';
 import { mockFetch, mockFetchSequence, mockLocalStorage } from './test-utils';
+import { createMemoryStorage } from './utils/storage';
 
 describe('createClient', () => {
   afterEach(() => {
@@ -119,4 +120,49 @@ describe('createClient', () => {
     expect(Object.keys(mitra.auth)).not.toContain('_accessToken');
     expect(Object.keys(mitra.auth)).not.toContain('_refreshToken');
   });
+
+  it('should restore the auth session from the configured storage', async () => {
+    const local = mockLocalStorage();
+    const storage = createMemoryStorage();
+    storage.setItem('mitra_auth_app-1', JSON.stringify({
+      user: { id: 'u1', tenantId: 't1', email: 'user@test.com', name: null },
+      token: 'stored-token',
+      refreshToken: 'stored-refresh',
+    }));
+    mockFetch({ dataSourceId: 'ds-1', allowSignup: true });
+
+    const mitra = createClient({
+      appId: 'app-1',
+      apiUrl: 'https://api.mitra.io',
+      storage,
+    });
+    await mitra.init();
+
+    expect(mitra.auth.accessToken).toBe('stored-token');
+    expect(local.getItem).not.toHaveBeenCalled();
+  });
+
+  it('should apply interceptors to every service client', async () => {
+    mockLocalStorage();
+    const fetchMock = mockFetchSequence([
+      { body: { dataSourceId: 'ds-1', allowSignup: true } },
+      { body: { id: '1', title: 'Created' } },
+    ]);
+    const onRequest = vi.fn((request: { headers: Record<string, string> }) => {
+      request.headers['X-Trace-Id'] = 'trace-1';
+    });
+    const mitra = createClient({
+      appId: 'app-1',
+      apiUrl: 'https://api.mitra.io',
+      interceptors: [{ onRequest }],
+    });
+
+    await mitra.init();
+    await mitra.entities.Task!.create({ title: 'Created' });
+
+    expect(onRequest).toHaveBeenCalledTimes(2);
+    for (const [, options] of fetchMock.mock.calls) {
+      expect(options.headers['X-Trace-Id']).toBe('trace-1');
+    }
+  });
 });
@@ -1,11 +1,20 @@
 import { encodePathSegment, expectObject } from '@mitralab.io/sdk-core';
 import { coreErrors } from './core-errors';
-import { HttpClient, MitraApiError } from './utils/http-client';
+import {
+  HttpClient,
+  MitraApiError,
+  type HttpInterceptor,
+  type RetryPolicy,
+} from './utils/http-client';
+import { QueryCache, type CacheOptions } from './utils/query-cache';
+import { OfflineQueue, type OfflineOptions } from './modules/offline';
+import type { StorageAdapter } from './utils/storage';
 import { AuthModule } from './modules/auth';
 import { EntitiesModule, EntitiesProxy } from './modules/entities';
 import { FunctionsModule } from './modules/functions';
 import { IntegrationModule } from './modules/integration';
 import { QueriesModule } from './modules/queries';
+import { FilesModule } from './modules/files';
 
 /**
  * Configuration options for creating a Mitra client.
@@ -43,6 +52,120 @@ export interface MitraClientConfig {
    * ```
    */
   onError?: (error: MitraApiError) => void;
+
+  /**
+   * Storage adapter used to persist the auth session.
+   * Defaults to `localStorage`. Adapters may be synchronous or async.
+   *
+   * @example
+   * ```typescript
+   * import { createClient, createSessionStorage } from '@mitralab.io/platform-sdk';
+   *
+   * const mitra = createClient({
+   *   appId: 'your-app-id',
+   *   apiUrl: 'https://api.example.com',
+   *   storage: createSessionStorage(),
+   * });
+   * ```
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Whether to share sign-in, sign-out, and token refreshes between open tabs
+   * and let only one tab refresh the session at a time.
+   * Defaults to `true` with the default storage and `false` with a custom `storage`.
+   */
+  syncTabs?: boolean;
+
+  /**
+   * Whether to refresh the session shortly before the access token expires,
+   * based on its JWT `exp` claim. Defaults to `true`.
+   */
+  autoRefresh?: boolean;
+
+  /**
+   * How long before token expiry the proactive refresh runs, in milliseconds.
+   * Defaults to 60 000.
+   */
+  refreshSkewMs?: number;
+
+  /**
+   * Request, response, and error hooks applied in order to every request the
+   * client makes, including authentication and app initialization.
+   *
+   * @example
+   * ```typescript
+   * const mitra = createClient({
+   *   appId: 'your-app-id',
+   *   apiUrl: 'https://api.example.com',
+   *   interceptors: [
+   *     {
+   *       onRequest: (request) => {
+   *         request.headers['X-Request-Id'] = crypto.randomUUID();
+   *       },
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  interceptors?: HttpInterceptor[];
+
+  /**
+   * Retries transient failures (429, 502, 503, 504, and network errors) with
+   * exponential backoff. Disabled by default; `true` uses the default policy,
+   * which only retries idempotent methods.
+   *
+   * @example
+   * ```typescript
+   * const mitra = createClient({
+   *   appId: 'your-app-id',
+   *   apiUrl: 'https://api.example.com',
+   *   retry: { maxAttempts: 4, baseDelayMs: 500 },
+   * });
+   * ```
+   */
+  retry?: RetryPolicy | boolean;
+
+  /**
+   * Default timeout for every request, in milliseconds. Requests that take
+   * longer fail with code `REQUEST_TIMEOUT`. No timeout by default.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Caches entity reads (`list`, `get`, `filter`, `listPage`, and queries) and
+   * custom query results. Disabled by default; `true` uses the defaults.
+   * Concurrent identical reads share one request, and successful entity writes
+   * invalidate the cached reads of their table.
+   *
+   * @example
+   * ```typescript
+   * const mitra = createClient({
+   *   appId: 'your-app-id',
+   *   apiUrl: 'https://api.example.com',
+   *   cache: { ttlMs: 10_000, staleWhileRevalidateMs: 60_000 },
+   * });
+   * ```
+   */
+  cache?: CacheOptions | boolean;
+
+  /**
+   * Queues entity `create`, `update`, and `delete` calls made while offline
+   * and replays them in order on reconnect. Disabled by default; `true` stores
+   * the queue in IndexedDB.
+   *
+   * @example
+   * ```typescript
+   * const mitra = createClient({
+   *   appId: 'your-app-id',
+   *   apiUrl: 'https://api.example.com',
+   *   offline: {
+   *     onConflict: ({ mutation, error }) => toast.error(`${mutation.table}: ${error.message}`),
+   *   },
+   * });
+   * ```
+   */
+  offline?: OfflineOptions | boolean;
 }
 
 /**
@@ -104,7 +227,8 @@ export interface MitraClient {
    * Initializes the client by resolving app config from the server.
    *
    * Must be called before using `auth.signUp()` or `entities`.
-   * Fetches dataSourceId and allowSignup from the public app info endpoint.
+   * Fetches dataSourceId and allowSignup from the public app info endpoint,
+   * and waits for the persisted auth session to be restored from storage.
    *
    * Safe to call multiple times. Subsequent calls are no-ops.
    *
@@ -184,6 +308,39 @@ export interface MitraClient {
    */
   queries: QueriesModule;
 
+  /**
+   * Files module for uploading files and attaching them to entity records.
+   *
+   * @example
+   * ```typescript
+   * const file = await mitra.files.upload(input.files[0]);
+   * await mitra.entities.Task.update(taskId, { attachment: file.id });
+   * ```
+   */
+  files: FilesModule;
+
+  /**
+   * Cache of entity reads and custom query results, enabled with the `cache`
+   * option. Cleared when the signed-in user changes.
+   *
+   * @example
+   * ```typescript
+   * mitra.cache.invalidateTable('Task');
+   * ```
+   */
+  cache: QueryCache;
+
+  /**
+   * Queue of entity mutations made while offline, enabled with the `offline`
+   * option.
+   *
+   * @example
+   * ```typescript
+   * mitra.offline.onStatusChange(({ pending }) => setUnsavedCount(pending));
+   * ```
+   */
+  offline: OfflineQueue;
+
   /**
    * Whether this app allows public user registration.
    * Defaults to `true` before `init()` is called.
@@ -205,6 +362,7 @@ export interface MitraClient {
  * - **functions**: Serverless function invocation
  * - **integration**: Proxy HTTP requests to external APIs
  * - **queries**: Custom query management and execution
+ * - **files**: File uploads, download URLs, and record attachments
  *
  * After creating the client, call `init()` to resolve the app's config
  * (dataSourceId, allowSignup) automatically from the server.
@@ -241,7 +399,20 @@ export interface MitraClient {
  * ```
  */
 export function createClient(config: MitraClientConfig): MitraClient {
-  const { appId, apiUrl, onError } = config;
+  const {
+    appId,
+    apiUrl,
+    onError,
+    storage,
+    syncTabs,
+    autoRefresh,
+    refreshSkewMs,
+    interceptors,
+    retry,
+    timeoutMs,
+    cache: cacheOptions,
+    offline: offlineOptions,
+  } = config;
 
   // Determine service URLs from base API URL
   const iamUrl = `${apiUrl}/iam`;
@@ -251,7 +422,15 @@ export function createClient(config: MitraClientConfig): MitraClient {
   const codeStudioUrl = `${apiUrl}/code-studio`;
 
   // Create auth module first (manages tokens)
-  const authModule = new AuthModule(appId, iamUrl);
+  const authModule = new AuthModule(appId, iamUrl, {
+    storage,
+    syncTabs,
+    autoRefresh,
+    refreshSkewMs,
+    interceptors,
+    retry,
+    timeoutMs,
+  });
 
   const onUnauthorized = () => authModule.refreshSession();
   const defaultHeaders = { 'X-App-Id': appId };
@@ -263,10 +442,27 @@ export function createClient(config: MitraClientConfig): MitraClient {
     onUnauthorized,
     onError,
     defaultHeaders,
+    interceptors,
+    retry,
+    timeoutMs,
+  });
+
+  // Cached reads and queued mutations belong to the signed-in user
+  const cache = new QueryCache(cacheOptions);
+  const offline = new OfflineQueue(offlineOptions, `mitra_offline_${appId}`);
+  let cachedUserId: string | undefined;
+  authModule.onAuthStateChange((user) => {
+    if (user?.id !== cachedUserId) cache.clear();
+    cachedUserId = user?.id;
+    offline.setUser(user?.id ?? null);
   });
 
   // Create modules
-  const entitiesModule = EntitiesModule.createProxy(httpClient, '') as EntitiesProxy;
+  const entitiesModule = EntitiesModule.createProxy(httpClient, '', {
+    cache,
+    offline,
+    onTokenRefreshed: (callback) => authModule.onTokenRefreshed(callback),
+  }) as EntitiesProxy;
 
   const functionsHttpClient = new HttpClient({
     baseUrl: functionsUrl,
@@ -274,6 +470,9 @@ export function createClient(config: MitraClientConfig): MitraClient {
     onUnauthorized,
     onError,
     defaultHeaders,
+    interceptors,
+    retry,
+    timeoutMs,
   });
   const functionsModule = new FunctionsModule(functionsHttpClient);
 
@@ -283,10 +482,17 @@ export function createClient(config: MitraClientConfig): MitraClient {
     onUnauthorized,
     onError,
     defaultHeaders,
+    interceptors,
+    retry,
+    timeoutMs,
   });
   const integrationModule = new IntegrationModule(integrationHttpClient);
 
-  const queriesModule = new QueriesModule(httpClient);
+  const queriesModule = new QueriesModule(httpClient, cache);
+
+  const filesModule = new FilesModule(httpClient, (table, recordId, data) =>
+    entitiesModule.getTable(table).update(recordId, data)
+  );
 
   let initialized = false;
   let allowSignup = true;
@@ -294,9 +500,14 @@ export function createClient(config: MitraClientConfig): MitraClient {
   async function init(): Promise<void> {
     if (initialized) return;
 
+    await authModule.ready;
+
     const publicClient = new HttpClient({
       baseUrl: codeStudioUrl,
       getToken: () => null,
+      interceptors,
+      retry,
+      timeoutMs,
     });
 
     const appInfo = expectAppInfoResponse(
@@ -310,6 +521,7 @@ export function createClient(config: MitraClientConfig): MitraClient {
     allowSignup = appInfo.allowSignup;
 
     initialized = true;
+    void offline.replay();
   }
 
   return {
@@ -319,6 +531,9 @@ export function createClient(config: MitraClientConfig): MitraClient {
     functions: functionsModule,
     integration: integrationModule,
     queries: queriesModule,
+    files: filesModule,
+    cache,
+    offline,
     get allowSignup() {
       return allowSignup;
     },
@@ -328,8 +543,88 @@ export function createClient(config: MitraClientConfig): MitraClient {
 
 // Re-export types from modules
 export type { User, SignInCredentials, SignUpData } from './modules/auth';
-export type { EntityListOptions, EntityTable } from './modules/entities';
-export type { FunctionExecution } from './modules/functions';
+export type { StorageAdapter } from './utils/storage';
+export type { CacheOptions, QueryCache } from './utils/query-cache';
+export type {
+  MutationConflict,
+  OfflineOptions,
+  OfflineQueue,
+  OfflineQueueStatus,
+  OfflineQueueStatusCallback,
+  QueuedMutation,
+} from './modules/offline';
+export type {
+  HttpInterceptor,
+  InterceptorRequest,
+  InterceptorResponse,
+  RetryPolicy,
+  CallOptions,
+  MitraErrorCode,
+} from './utils/http-client';
+export type {
+  EntityFilter,
+  EntityListOptions,
+  EntityMutationRollback,
+  EntityPage,
+  EntityPageOptions,
+  EntityPaginateOptions,
+  EntitySchema,
+  EntitySchemas,
+  EntityTable,
+  EntityTableOptions,
+  TypedEntityTable,
+  EntitiesProxy,
+  FilterOperators,
+  FilterScalar,
+  MutationStatus,
+  OptimisticMutation,
+  EntityRelation,
+  Expanded,
+  AggregateFunction,
+  AggregateMetric,
+  AggregateOptions,
+  AggregateRow,
+  AggregateValue,
+  BatchFailure,
+  BatchItemResult,
+  BatchOptions,
+  BatchReport,
+  UpsertOptions,
+  RecordChangeCallback,
+  RecordChangeEvent,
+  SubscribeOptions,
+  EntityQuery,
+  SortDirection,
+  WhereOperator,
+  WhereValue,
+  SchemaIssue,
+  SchemaSource,
+  StandardSchemaV1,
+} from './modules/entities';
+export type {
+  ExecutionLogEvent,
+  FunctionExecution,
+  StreamLogsOptions,
+  WaitForExecutionOptions,
+} from './modules/functions';
 export type { ProxyInput, ProxyResult } from './modules/integration';
-export type { QueryResult } from './modules/queries';
+export type {
+  QueriesModule,
+  QueryArguments,
+  QueryDefinitionOptions,
+  QueryPage,
+  QueryPageOptions,
+  QueryResult,
+  QueryStreamOptions,
+  TypedQuery,
+} from './modules/queries';
+export type {
+  AttachTarget,
+  DownloadUrlOptions,
+  FilesModule,
+  SignedUrl,
+  StoredFile,
+  UploadOptions,
+  UploadProgress,
+} from './modules/files';
 export { MitraApiError } from './utils/http-client';
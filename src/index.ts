@@ -39,10 +39,85 @@ export type {
   SignUpData,
   EntityListOptions,
   EntityTable,
+  EntityTableOptions,
+  EntitySchema,
+  EntitySchemas,
+  TypedEntityTable,
+  EntitiesProxy,
+  EntityPage,
+  EntityPageOptions,
+  EntityPaginateOptions,
+  EntityFilter,
+  FilterOperators,
+  FilterScalar,
+  MutationStatus,
+  OptimisticMutation,
+  EntityMutationRollback,
+  EntityRelation,
+  Expanded,
+  AggregateFunction,
+  AggregateMetric,
+  AggregateOptions,
+  AggregateRow,
+  AggregateValue,
+  BatchFailure,
+  BatchItemResult,
+  BatchOptions,
+  BatchReport,
+  UpsertOptions,
+  RecordChangeCallback,
+  RecordChangeEvent,
+  SubscribeOptions,
+  EntityQuery,
+  SortDirection,
+  WhereOperator,
+  WhereValue,
+  SchemaIssue,
+  SchemaSource,
+  StandardSchemaV1,
   FunctionExecution,
+  WaitForExecutionOptions,
+  ExecutionLogEvent,
+  StreamLogsOptions,
   ProxyInput,
   ProxyResult,
   QueryResult,
+  QueriesModule,
+  QueryArguments,
+  QueryDefinitionOptions,
+  QueryPage,
+  QueryPageOptions,
+  QueryStreamOptions,
+  TypedQuery,
+  FilesModule,
+  StoredFile,
+  UploadOptions,
+  UploadProgress,
+  DownloadUrlOptions,
+  SignedUrl,
+  AttachTarget,
+  StorageAdapter,
+  CacheOptions,
+  QueryCache,
+  MutationConflict,
+  OfflineOptions,
+  OfflineQueue,
+  OfflineQueueStatus,
+  OfflineQueueStatusCallback,
+  QueuedMutation,
+  HttpInterceptor,
+  InterceptorRequest,
+  InterceptorResponse,
+  RetryPolicy,
+  CallOptions,
+  MitraErrorCode,
 } from './client';
 
 export { MitraApiError } from './utils/http-client';
+export {
+  createMemoryStorage,
+  createLocalStorage,
+  createSessionStorage,
+  createIndexedDBStorage,
+} from './utils/storage';
+export { avg, count, max, min, sum } from './modules/entity-aggregate';
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AuthModule } from './auth';
-import { mockFetchSequence, mockLocalStorage } from '../test-utils';
+import {
+  createJwt,
+  mockBroadcastChannel,
+  mockFetchSequence,
+  mockLocalStorage,
+  mockLocks,
+  mockWindow,
+} from '../test-utils';
+import { createMemoryStorage, type StorageAdapter } from '../utils/storage';
 
 const APP_ID = 'test-app';
 const IAM_URL = 'https://api.mitra.io/iam';
@@ -382,4 +390,323 @@ describe('AuthModule', () => {
     // Should NOT have been called again after unsubscribe
     expect(listener).toHaveBeenCalledTimes(1);
   });
+
+  it('should persist the session through a custom storage adapter', async () => {
+    mockFetchSequence([
+      { body: fakeTokenResponse },
+      { body: currentUserResponse },
+    ]);
+    const custom = createMemoryStorage();
+
+    const auth = new AuthModule(APP_ID, IAM_URL, { storage: custom });
+    await auth.signIn({ email: 'user@test.com', password: 'pass' });
+
+    expect(JSON.parse(custom.getItem(STORAGE_KEY) as string).token).toBe('access-123');
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    auth.signOut();
+    expect(custom.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('should restore the session from an async storage adapter', async () => {
+    const asyncStorage: StorageAdapter = {
+      getItem: vi.fn().mockResolvedValue(
+        JSON.stringify({ user: fakeUser, token: 'stored-token', refreshToken: 'stored-refresh' })
+      ),
+      setItem: vi.fn().mockResolvedValue(undefined),
+      removeItem: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const auth = new AuthModule(APP_ID, IAM_URL, { storage: asyncStorage });
+    const listener = vi.fn();
+    auth.onAuthStateChange(listener);
+
+    expect(auth.isAuthenticated).toBe(false);
+    await auth.ready;
+
+    expect(auth.currentUser).toEqual(fakeUser);
+    expect(auth.accessToken).toBe('stored-token');
+    expect(listener).toHaveBeenLastCalledWith(fakeUser);
+  });
+
+  it('should not restore a session signed out before async storage resolves', async () => {
+    let resolveItem!: (value: string) => void;
+    const asyncStorage: StorageAdapter = {
+      getItem: vi.fn(() => new Promise<string>((resolve) => (resolveItem = resolve))),
+      setItem: vi.fn().mockResolvedValue(undefined),
+      removeItem: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const auth = new AuthModule(APP_ID, IAM_URL, { storage: asyncStorage });
+    auth.signOut();
+    resolveItem(
+      JSON.stringify({ user: fakeUser, token: 'stored-token', refreshToken: 'stored-refresh' })
+    );
+    await auth.ready;
+
+    expect(auth.isAuthenticated).toBe(false);
+    expect(auth.accessToken).toBeNull();
+    expect(asyncStorage.removeItem).toHaveBeenCalledWith(STORAGE_KEY);
+  });
+
+  it('should clear corrupted data and ignore failing async storage writes', async () => {
+    const asyncStorage: StorageAdapter = {
+      getItem: vi.fn().mockResolvedValue('{not json'),
+      setItem: vi.fn().mockRejectedValue(new Error('Quota exceeded')),
+      removeItem: vi.fn().mockRejectedValue(new Error('Disabled')),
+    };
+
+    const auth = new AuthModule(APP_ID, IAM_URL, { storage: asyncStorage });
+    await auth.ready;
+
+    expect(auth.currentUser).toBeNull();
+    expect(asyncStorage.removeItem).toHaveBeenCalledWith(STORAGE_KEY);
+    expect(() => auth.setToken('manual-token')).not.toThrow();
+  });
+});
+
+describe('AuthModule cross-tab sync', () => {
+  let storage: ReturnType<typeof mockLocalStorage>;
+  let window: ReturnType<typeof mockWindow>;
+  let channels: ReturnType<typeof mockBroadcastChannel>;
+
+  beforeEach(() => {
+    storage = mockLocalStorage();
+    window = mockWindow();
+    channels = mockBroadcastChannel();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should adopt a sign-in from another tab and notify listeners', async () => {
+    mockFetchSequence([
+      { body: fakeTokenResponse },
+      { body: currentUserResponse },
+    ]);
+    const tabA = new AuthModule(APP_ID, IAM_URL);
+    const tabB = new AuthModule(APP_ID, IAM_URL);
+    const listener = vi.fn();
+    tabB.onAuthStateChange(listener);
+
+    await tabA.signIn({ email: 'user@test.com', password: 'pass' });
+
+    expect(tabB.currentUser).toEqual(apiUser);
+    expect(tabB.accessToken).toBe('access-123');
+    expect(listener).toHaveBeenLastCalledWith(apiUser);
+  });
+
+  it('should sign out every tab when one tab signs out', () => {
+    storage._store[STORAGE_KEY] = JSON.stringify({
+      user: fakeUser,
+      token: 'access-123',
+      refreshToken: 'refresh-456',
+    });
+    const tabA = new AuthModule(APP_ID, IAM_URL);
+    const tabB = new AuthModule(APP_ID, IAM_URL);
+    const listener = vi.fn();
+    tabB.onAuthStateChange(listener);
+
+    tabA.signOut();
+
+    expect(tabB.isAuthenticated).toBe(false);
+    expect(tabB.accessToken).toBeNull();
+    expect(listener).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should adopt sessions written to storage by other tabs', () => {
+    const auth = new AuthModule(APP_ID, IAM_URL);
+    const listener = vi.fn();
+    auth.onAuthStateChange(listener);
+
+    window.dispatch('storage', { key: 'other-key', newValue: '{not json' });
+    window.dispatch('storage', {
+      key: STORAGE_KEY,
+      newValue: JSON.stringify({ user: fakeUser, token: 'rotated', refreshToken: 'rotated-r' }),
+    });
+
+    expect(auth.accessToken).toBe('rotated');
+    expect(listener).toHaveBeenLastCalledWith(fakeUser);
+  });
+
+  it('should refresh in one tab only and share the rotated tokens', async () => {
+    storage._store[STORAGE_KEY] = JSON.stringify({
+      user: fakeUser,
+      token: 'old-access',
+      refreshToken: 'old-refresh',
+    });
+    const locks = mockLocks();
+    const fetchMock = mockFetchSequence([
+      { body: { accessToken: 'new', refreshToken: 'new-r', tokenType: 'Bearer' } },
+      { body: currentUserResponse },
+    ]);
+    const tabA = new AuthModule(APP_ID, IAM_URL);
+    const tabB = new AuthModule(APP_ID, IAM_URL);
+
+    const [a, b] = await Promise.all([tabA.refreshSession(), tabB.refreshSession()]);
+
+    expect(a).toBe(true);
+    expect(b).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(locks.request).toHaveBeenCalledTimes(2);
+    expect(tabB.accessToken).toBe('new');
+  });
+
+  it('should not sync tabs with a custom storage unless enabled', async () => {
+    mockFetchSequence([
+      { body: fakeTokenResponse },
+      { body: currentUserResponse },
+    ]);
+    const tabA = new AuthModule(APP_ID, IAM_URL, { storage: createMemoryStorage() });
+    const tabB = new AuthModule(APP_ID, IAM_URL, { storage: createMemoryStorage() });
+
+    await tabA.signIn({ email: 'user@test.com', password: 'pass' });
+
+    expect(channels.size).toBe(0);
+    expect(tabB.isAuthenticated).toBe(false);
+  });
+
+  it('should stop syncing after dispose()', () => {
+    const auth = new AuthModule(APP_ID, IAM_URL);
+
+    auth.dispose();
+
+    expect(channels.size).toBe(0);
+    expect(window.removeEventListener).toHaveBeenCalledWith('storage', expect.any(Function));
+  });
+});
+
+describe('AuthModule proactive refresh', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const expiresAt = now + 10 * 60_000;
+  const expiringToken = createJwt({ sub: 'u1', exp: expiresAt / 1000 });
+  const rotatedToken = createJwt({ sub: 'u1', exp: (expiresAt + 60 * 60_000) / 1000 });
+  let storage: ReturnType<typeof mockLocalStorage>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now });
+    storage = mockLocalStorage();
+    storage._store[STORAGE_KEY] = JSON.stringify({
+      user: fakeUser,
+      token: expiringToken,
+      refreshToken: 'refresh-456',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should expose the access token expiry', () => {
+    const auth = new AuthModule(APP_ID, IAM_URL);
+
+    expect(auth.expiresAt).toBe(expiresAt);
+    auth.signOut();
+    expect(auth.expiresAt).toBeNull();
+  });
+
+  it('should refresh the skew before expiry and emit tokenRefreshed', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { accessToken: rotatedToken, refreshToken: 'new-r', tokenType: 'Bearer' } },
+      { body: currentUserResponse },
+    ]);
+    const auth = new AuthModule(APP_ID, IAM_URL, { refreshSkewMs: 30_000 });
+    const onRefreshed = vi.fn();
+    auth.onTokenRefreshed(onRefreshed);
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000 - 30_001);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(`${IAM_URL}/api/v1/auth/refresh-token`);
+    expect(auth.accessToken).toBe(rotatedToken);
+    expect(onRefreshed).toHaveBeenCalledWith(expiresAt + 60 * 60_000);
+
+    auth.dispose();
+  });
+
+  it('should refresh on focus when the token expired while the tab was hidden', async () => {
+    const window = mockWindow();
+    const fetchMock = mockFetchSequence([
+      { body: { accessToken: rotatedToken, refreshToken: 'new-r', tokenType: 'Bearer' } },
+      { body: currentUserResponse },
+    ]);
+    const auth = new AuthModule(APP_ID, IAM_URL, { syncTabs: false });
+
+    // Simulate a throttled timer: the clock moves without the timeout firing
+    vi.setSystemTime(expiresAt + 60_000);
+    window.dispatch('focus', {});
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(auth.accessToken).toBe(rotatedToken);
+
+    auth.dispose();
+    expect(window.removeEventListener).toHaveBeenCalledWith('focus', expect.any(Function));
+  });
+
+  it('should keep the session in every tab when a proactive refresh hits a network error', async () => {
+    mockWindow();
+    mockBroadcastChannel();
+    mockLocks();
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          accessToken: rotatedToken,
+          refreshToken: 'new-r',
+          tokenType: 'Bearer',
+        }),
+      })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => currentUserResponse });
+    vi.stubGlobal('fetch', fetchMock);
+    const tabA = new AuthModule(APP_ID, IAM_URL, { refreshSkewMs: 30_000 });
+    const tabB = new AuthModule(APP_ID, IAM_URL, { autoRefresh: false });
+    const listener = vi.fn();
+    tabB.onAuthStateChange(listener);
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000 - 30_000);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(tabA.isAuthenticated).toBe(true);
+    expect(tabA.accessToken).toBe(expiringToken);
+    expect(tabB.accessToken).toBe(expiringToken);
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).not.toHaveBeenCalledWith(null);
+    expect(JSON.parse(storage._store[STORAGE_KEY]).refreshToken).toBe('refresh-456');
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(tabA.accessToken).toBe(rotatedToken);
+    expect(tabB.accessToken).toBe(rotatedToken);
+
+    tabA.dispose();
+    tabB.dispose();
+  });
+
+  it('should sign out when a proactive refresh is rejected', async () => {
+    mockFetchSequence([{ body: { message: 'Invalid refresh token' }, status: 401 }]);
+    const auth = new AuthModule(APP_ID, IAM_URL, { syncTabs: false, refreshSkewMs: 30_000 });
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000 - 30_000);
+
+    expect(auth.isAuthenticated).toBe(false);
+    auth.dispose();
+  });
+
+  it('should not schedule refreshes when autoRefresh is disabled or after dispose()', async () => {
+    const fetchMock = mockFetchSequence([]);
+    const manual = new AuthModule(APP_ID, IAM_URL, { autoRefresh: false });
+    const disposed = new AuthModule(APP_ID, IAM_URL);
+    disposed.dispose();
+
+    await vi.advanceTimersByTimeAsync(20 * 60_000);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(manual.expiresAt).toBe(expiresAt);
+  });
 });
@@ -1,22 +1,48 @@
 import { createAuthModule, type AuthModule as CoreAuthModule } from '@mitralab.io/sdk-core';
 import { coreErrors } from '../core-errors';
 import { HttpClient, MitraApiError } from '../utils/http-client';
+import { decodeJwtExpiry } from '../utils/jwt';
+import { createLocalStorage, type StorageAdapter } from '../utils/storage';
+import { createTabSync, type TabSync } from '../utils/tab-sync';
 import type {
   User,
   SignInCredentials,
   SignUpData,
   AuthTokenResponse,
   AuthStateChangeCallback,
+  AuthModuleOptions,
+  StoredSession,
+  TokenRefreshedCallback,
 } from './auth.types';
 
-export type { User, SignInCredentials, SignUpData, AuthStateChangeCallback } from './auth.types';
+export type {
+  User,
+  SignInCredentials,
+  SignUpData,
+  AuthStateChangeCallback,
+  AuthModuleOptions,
+  TokenRefreshedCallback,
+} from './auth.types';
+
+const DEFAULT_REFRESH_SKEW_MS = 60_000;
+// Browsers overflow setTimeout delays above 2^31 - 1 ms
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+const PROACTIVE_RETRY_DELAY_MS = 5_000;
+const MAX_PROACTIVE_RETRY_DELAY_MS = 60_000;
+
+// Network errors, timeouts, and server errors say nothing about the refresh token
+function isTransientFailure(error: unknown): boolean {
+  return error instanceof MitraApiError && (error.status === 0 || error.status >= 500);
+}
 
 /**
  * Authentication module for managing user sessions.
  *
  * Handles sign-in, sign-up, sign-out, and automatic token refresh.
- * Auth state is persisted to localStorage with key `mitra_auth_{appId}`
- * and restored on page reload.
+ * Auth state is persisted with key `mitra_auth_{appId}` through the configured
+ * storage adapter (`localStorage` by default) and restored on page reload.
+ * Sign-in, sign-out, and token refreshes are shared with other open tabs.
+ * JWT access tokens are refreshed shortly before they expire.
  *
  * @example
  * ```typescript
@@ -31,18 +57,78 @@ export class AuthModule {
   #refreshToken: string | null = null;
   private refreshPromise: Promise<boolean> | null = null;
   private readonly listeners: Set<AuthStateChangeCallback> = new Set();
+  private readonly tokenListeners: Set<TokenRefreshedCallback> = new Set();
+  private readonly autoRefresh: boolean;
+  private readonly refreshSkewMs: number;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private proactiveRetryDelayMs = PROACTIVE_RETRY_DELAY_MS;
+  // Set once the session changes, so a slow async storage read cannot bring back an older one
+  private sessionTouched = false;
+  private readonly onWake = () => {
+    if (globalThis.document?.visibilityState === 'hidden') return;
+    this.refreshIfExpiring();
+  };
   private readonly storageKey: string;
+  private readonly storage: StorageAdapter;
+  private readonly tabSync: TabSync<StoredSession | null> | null;
+  private readonly onStorageEvent = (event: StorageEvent) => {
+    if (event.key !== this.storageKey) return;
+    try {
+      this.adoptSession(parseStoredSession(event.newValue));
+    } catch {
+      // Ignore malformed values written by other code
+    }
+  };
+  private storageWrite: Promise<void> = Promise.resolve();
   private readonly publicClient: HttpClient;
   private readonly authedClient: HttpClient;
   private readonly currentUserApi: CoreAuthModule;
 
-  constructor(appId: string, iamBaseUrl: string) {
+  /**
+   * Resolves once the persisted session has been restored from storage.
+   *
+   * Synchronous adapters (like `localStorage`) restore during construction;
+   * await this when using an asynchronous storage adapter.
+   */
+  readonly ready: Promise<void>;
+
+  constructor(appId: string, iamBaseUrl: string, options: AuthModuleOptions = {}) {
     this.appId = appId;
     this.storageKey = `mitra_auth_${appId}`;
-    this.publicClient = new HttpClient({ baseUrl: iamBaseUrl, getToken: () => null });
-    this.authedClient = new HttpClient({ baseUrl: iamBaseUrl, getToken: () => this.#accessToken });
+    this.storage = options.storage ?? createLocalStorage();
+    this.autoRefresh = options.autoRefresh ?? true;
+    this.refreshSkewMs = options.refreshSkewMs ?? DEFAULT_REFRESH_SKEW_MS;
+    this.publicClient = new HttpClient({
+      baseUrl: iamBaseUrl,
+      getToken: () => null,
+      interceptors: options.interceptors,
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+    });
+    this.authedClient = new HttpClient({
+      baseUrl: iamBaseUrl,
+      getToken: () => this.#accessToken,
+      interceptors: options.interceptors,
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+    });
     this.currentUserApi = createAuthModule(this.authedClient, coreErrors);
-    this.loadFromStorage();
+    this.ready = this.loadFromStorage();
+
+    const syncTabs = options.syncTabs ?? options.storage === undefined;
+    this.tabSync = syncTabs
+      ? createTabSync<StoredSession | null>(this.storageKey, (session) => this.adoptSession(session))
+      : null;
+    if (this.tabSync) {
+      globalThis.window.addEventListener('storage', this.onStorageEvent);
+    }
+
+    // Timers are throttled in hidden tabs, so re-check expiry when the user returns
+    if (this.autoRefresh && typeof globalThis.window?.addEventListener === 'function') {
+      globalThis.window.addEventListener('focus', this.onWake);
+      globalThis.document?.addEventListener('visibilitychange', this.onWake);
+    }
+    this.scheduleRefresh();
   }
 
   /** The currently authenticated user, or null. */
@@ -55,6 +141,14 @@ export class AuthModule {
     return this.#accessToken;
   }
 
+  /**
+   * When the current access token expires, in epoch milliseconds.
+   * Null when signed out or when the token has no JWT `exp` claim.
+   */
+  get expiresAt(): number | null {
+    return this.#accessToken ? decodeJwtExpiry(this.#accessToken) : null;
+  }
+
   /** Whether a user is currently authenticated (local check, not server-validated). */
   get isAuthenticated(): boolean {
     return this._currentUser !== null && this.#accessToken !== null;
@@ -119,7 +213,7 @@ export class AuthModule {
   }
 
   /**
-   * Signs out the current user, clearing all auth state and localStorage.
+   * Signs out the current user, clearing all auth state and persisted storage.
    *
    * @param redirectUrl - Optional URL to navigate to after sign-out.
    *
@@ -142,7 +236,8 @@ export class AuthModule {
    *
    * Called automatically by the SDK on 401 responses. Can also be called
    * manually. Multiple concurrent calls are deduplicated (only one refresh
-   * request is made).
+   * request is made). With tab sync enabled, only one tab refreshes at a time
+   * and the others adopt the rotated tokens.
    *
    * @returns `true` if refresh succeeded, `false` otherwise.
    *
@@ -153,11 +248,18 @@ export class AuthModule {
    * ```
    */
   async refreshSession(): Promise<boolean> {
+    return this.startRefresh(false);
+  }
+
+  private async startRefresh(proactive: boolean): Promise<boolean> {
     if (!this.#refreshToken) return false;
 
     if (this.refreshPromise) return this.refreshPromise;
 
-    this.refreshPromise = this.doRefresh();
+    const staleRefreshToken = this.#refreshToken;
+    this.refreshPromise = this.tabSync
+      ? this.tabSync.withLock(() => this.refreshAcrossTabs(staleRefreshToken, proactive))
+      : this.doRefresh(proactive);
     try {
       return await this.refreshPromise;
     } finally {
@@ -218,7 +320,7 @@ export class AuthModule {
    * Call `me()` afterwards to fetch the associated user data.
    *
    * @param token - JWT access token.
-   * @param saveToStorage - Whether to persist to localStorage (default: true).
+   * @param saveToStorage - Whether to persist to the storage adapter (default: true).
    *
    * @example
    * ```typescript
@@ -231,6 +333,7 @@ export class AuthModule {
     if (saveToStorage) {
       this.saveToStorage();
     }
+    this.scheduleRefresh();
   }
 
   /**
@@ -278,7 +381,102 @@ export class AuthModule {
     };
   }
 
-  private async doRefresh(): Promise<boolean> {
+  /**
+   * Registers a callback for token refreshes, including refreshes adopted
+   * from another tab.
+   *
+   * @param callback - Receives the new token expiry in epoch milliseconds, if known.
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```typescript
+   * const unsub = mitra.auth.onTokenRefreshed((expiresAt) => {
+   *   console.log('Session valid until', expiresAt && new Date(expiresAt));
+   * });
+   * ```
+   */
+  onTokenRefreshed(callback: TokenRefreshedCallback): () => void {
+    this.tokenListeners.add(callback);
+
+    return () => {
+      this.tokenListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Stops cross-tab synchronization and proactive refresh. Call when discarding the client.
+   */
+  dispose(): void {
+    this.cancelScheduledRefresh();
+    this.tabSync?.close();
+    if (this.tabSync) {
+      globalThis.window.removeEventListener('storage', this.onStorageEvent);
+    }
+    if (typeof globalThis.window?.removeEventListener === 'function') {
+      globalThis.window.removeEventListener('focus', this.onWake);
+      globalThis.document?.removeEventListener('visibilitychange', this.onWake);
+    }
+  }
+
+  private scheduleRefresh(): void {
+    this.cancelScheduledRefresh();
+    const expiresAt = this.expiresAt;
+    if (!this.autoRefresh || expiresAt === null || !this.#refreshToken) return;
+
+    const delay = Math.min(
+      Math.max(expiresAt - this.refreshSkewMs - Date.now(), 0),
+      MAX_TIMER_DELAY_MS
+    );
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshIfExpiring();
+    }, delay);
+  }
+
+  private cancelScheduledRefresh(): void {
+    if (this.refreshTimer === null) return;
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  private refreshIfExpiring(): void {
+    const expiresAt = this.expiresAt;
+    if (!this.autoRefresh || expiresAt === null || !this.#refreshToken) return;
+
+    if (expiresAt - this.refreshSkewMs <= Date.now()) {
+      void this.startRefresh(true);
+    } else {
+      this.scheduleRefresh();
+    }
+  }
+
+  private async refreshAcrossTabs(
+    staleRefreshToken: string | null,
+    proactive: boolean
+  ): Promise<boolean> {
+    // Another tab may have rotated the tokens while this one waited for the lock
+    const stored = await this.readStoredSession();
+    if (stored?.refreshToken && stored.refreshToken !== staleRefreshToken) {
+      this.adoptSession(stored);
+      return stored.token !== null;
+    }
+    if (this.#refreshToken !== staleRefreshToken) {
+      return this.#accessToken !== null;
+    }
+
+    const refreshed = await this.doRefresh(proactive);
+    await this.storageWrite;
+    return refreshed;
+  }
+
+  /**
+   * Proactive refreshes run while the access token is still valid, so a
+   * transient failure keeps the session and retries with backoff instead of
+   * signing out every tab. Only a rejected refresh token ends the session.
+   */
+  private async doRefresh(proactive = false): Promise<boolean> {
+    const keepSession = (error: unknown) =>
+      proactive && this._currentUser !== null && isTransientFailure(error);
     try {
       const tokenResponse = await this.publicClient.post<AuthTokenResponse>(
         '/api/v1/auth/refresh-token',
@@ -288,21 +486,43 @@ export class AuthModule {
       this.#accessToken = tokenResponse.accessToken;
       this.#refreshToken = tokenResponse.refreshToken;
 
-      const user = await this.getCurrentUser();
+      // The old refresh token is rotated out, so keep the new tokens either way
+      const user = await this.getCurrentUser().catch((error: unknown) => {
+        if (keepSession(error) && this._currentUser) return this._currentUser;
+        throw error;
+      });
 
       this.setAuthState(user, tokenResponse.accessToken, tokenResponse.refreshToken);
+      this.notifyTokenListeners();
       return true;
-    } catch {
-      this.clearAuthState();
+    } catch (error) {
+      if (keepSession(error)) {
+        this.scheduleProactiveRetry();
+      } else {
+        this.clearAuthState();
+      }
       return false;
     }
   }
 
+  private scheduleProactiveRetry(): void {
+    this.cancelScheduledRefresh();
+    const delay = this.proactiveRetryDelayMs;
+    this.proactiveRetryDelayMs = Math.min(delay * 2, MAX_PROACTIVE_RETRY_DELAY_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshIfExpiring();
+    }, delay);
+  }
+
   private setAuthState(user: User, token: string, refreshToken: string): void {
+    this.sessionTouched = true;
+    this.proactiveRetryDelayMs = PROACTIVE_RETRY_DELAY_MS;
     this._currentUser = user;
     this.#accessToken = token;
     this.#refreshToken = refreshToken;
     this.saveToStorage();
+    this.scheduleRefresh();
     this.notifyListeners();
   }
 
@@ -312,9 +532,11 @@ export class AuthModule {
   }
 
   private clearAuthState(): void {
+    this.sessionTouched = true;
     this._currentUser = null;
     this.#accessToken = null;
     this.#refreshToken = null;
+    this.cancelScheduledRefresh();
     this.removeFromStorage();
     this.notifyListeners();
   }
@@ -329,46 +551,104 @@ export class AuthModule {
     });
   }
 
+  private adoptSession(session: StoredSession | null): void {
+    const previousUserId = this._currentUser?.id ?? null;
+    const previousToken = this.#accessToken;
+    this.sessionTouched = true;
+    this._currentUser = session?.user ?? null;
+    this.#accessToken = session?.token ?? null;
+    this.#refreshToken = session?.refreshToken ?? null;
+    this.scheduleRefresh();
+    if ((this._currentUser?.id ?? null) !== previousUserId) {
+      this.notifyListeners();
+    } else if (this.#accessToken !== null && this.#accessToken !== previousToken) {
+      this.notifyTokenListeners();
+    }
+  }
+
+  private notifyTokenListeners(): void {
+    const expiresAt = this.expiresAt;
+    this.tokenListeners.forEach((callback) => {
+      try {
+        callback(expiresAt);
+      } catch (error) {
+        console.error('Token refreshed listener error:', error);
+      }
+    });
+  }
+
   private saveToStorage(): void {
-    if (typeof localStorage === 'undefined') return;
+    const session: StoredSession = {
+      user: this._currentUser,
+      token: this.#accessToken,
+      refreshToken: this.#refreshToken,
+    };
+    this.writeStorage(() => this.storage.setItem(this.storageKey, JSON.stringify(session)));
+    this.tabSync?.post(session);
+  }
 
+  private async readStoredSession(): Promise<StoredSession | null> {
     try {
-      localStorage.setItem(
-        this.storageKey,
-        JSON.stringify({
-          user: this._currentUser,
-          token: this.#accessToken,
-          refreshToken: this.#refreshToken,
-        })
-      );
+      return parseStoredSession(await this.storage.getItem(this.storageKey));
     } catch {
-      // Storage might be full or disabled
+      return null;
     }
   }
 
-  private loadFromStorage(): void {
-    if (typeof localStorage === 'undefined') return;
-
+  private loadFromStorage(): Promise<void> {
     try {
-      const stored = localStorage.getItem(this.storageKey);
-      if (stored) {
-        const { user, token, refreshToken } = JSON.parse(stored);
-        this._currentUser = user;
-        this.#accessToken = token;
-        this.#refreshToken = refreshToken ?? null;
+      const stored = this.storage.getItem(this.storageKey);
+      if (!(stored instanceof Promise)) {
+        this.restoreSession(stored);
+        return Promise.resolve();
       }
+      return stored.then(
+        (value) => {
+          // A sign-in, sign-out, or session from another tab that came first wins
+          if (this.sessionTouched || this.#accessToken !== null) return;
+          try {
+            this.restoreSession(value);
+          } catch {
+            this.removeFromStorage();
+            return;
+          }
+          this.scheduleRefresh();
+          if (this._currentUser) this.notifyListeners();
+        },
+        () => undefined
+      );
     } catch {
       this.removeFromStorage();
+      return Promise.resolve();
     }
   }
 
+  private restoreSession(stored: string | null): void {
+    const session = parseStoredSession(stored);
+    if (!session) return;
+    this._currentUser = session.user;
+    this.#accessToken = session.token;
+    this.#refreshToken = session.refreshToken;
+  }
+
   private removeFromStorage(): void {
-    if (typeof localStorage === 'undefined') return;
+    this.writeStorage(() => this.storage.removeItem(this.storageKey));
+    this.tabSync?.post(null);
+  }
 
+  private writeStorage(write: () => void | Promise<void>): void {
     try {
-      localStorage.removeItem(this.storageKey);
+      this.storageWrite = Promise.resolve(write()).catch(() => {
+        // Storage might be full or disabled
+      });
     } catch {
-      // Storage might be disabled
+      // Storage might be full or disabled
     }
   }
 }
+
+function parseStoredSession(stored: string | null): StoredSession | null {
+  if (!stored) return null;
+  const { user, token, refreshToken } = JSON.parse(stored);
+  return { user, token, refreshToken: refreshToken ?? null };
+}
@@ -1,3 +1,6 @@
+import type { HttpInterceptor, RetryPolicy } from '../utils/http-client';
+import type { StorageAdapter } from '../utils/storage';
+
 /** Authenticated user in the Mitra Platform. */
 export interface User {
   /** Unique identifier. */
@@ -35,3 +38,41 @@ export interface AuthTokenResponse {
 
 /** Callback for auth state changes. Receives the user on login, null on logout. */
 export type AuthStateChangeCallback = (user: User | null) => void;
+
+/** Callback for token refreshes. Receives the new token expiry in epoch milliseconds, if known. */
+export type TokenRefreshedCallback = (expiresAt: number | null) => void;
+
+/**
+ * Session snapshot persisted to storage and shared between tabs.
+ * @internal
+ */
+export interface StoredSession {
+  user: User | null;
+  token: string | null;
+  refreshToken: string | null;
+}
+
+/** Options for creating an AuthModule. */
+export interface AuthModuleOptions {
+  /** Where the session is persisted. Defaults to `localStorage`. */
+  storage?: StorageAdapter;
+  /**
+   * Whether to share sign-in, sign-out, and token refreshes with other tabs
+   * of the same app and to coordinate refreshes so only one tab runs at a time.
+   * Defaults to `true` with the default storage and `false` with a custom one.
+   */
+  syncTabs?: boolean;
+  /**
+   * Whether to refresh the session before the access token expires, based on
+   * its JWT `exp` claim. Defaults to `true`.
+   */
+  autoRefresh?: boolean;
+  /** How long before expiry the proactive refresh runs, in milliseconds. Defaults to 60 000. */
+  refreshSkewMs?: number;
+  /** Request, response, and error hooks applied to IAM requests. */
+  interceptors?: HttpInterceptor[];
+  /** Retry policy applied to IAM requests. */
+  retry?: RetryPolicy | boolean;
+  /** Default timeout for IAM requests, in milliseconds. */
+  timeoutMs?: number;
+}
@@ -1,13 +1,23 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { mockFetch } from '../test-utils';
+import {
+  createByteStream,
+  mockAbortableFetch,
+  mockFetch,
+  mockFetchSequence,
+} from '../test-utils';
 import { HttpClient, MitraApiError } from '../utils/http-client';
-import { EntitiesModule, type EntitiesProxy } from './entities';
+import { QueryCache } from '../utils/query-cache';
+import { createMemoryStorage } from '../utils/storage';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+import { EntitiesModule, type EntitiesModuleOptions, type EntitiesProxy } from './entities';
+import { count, sum } from './entity-aggregate';
+import { OfflineQueue } from './offline';
 
 const BASE = 'https://api.mitra.io/data-manager';
 
-function createEntities(): EntitiesProxy {
+function createEntities(options?: EntitiesModuleOptions): EntitiesProxy {
   const httpClient = new HttpClient({ baseUrl: BASE });
-  return EntitiesModule.createProxy(httpClient, 'legacy-data-source') as EntitiesProxy;
+  return EntitiesModule.createProxy(httpClient, 'legacy-data-source', options) as EntitiesProxy;
 }
 
 describe('EntitiesModule compatibility facade', () => {
@@ -39,6 +49,17 @@ describe('EntitiesModule compatibility facade', () => {
     expect(calledUrl).toContain('skip=5');
   });
 
+  it('resolves tables named like internal module members', async () => {
+    const fetchMock = mockFetch({ data: [], limit: 1, skip: 0, total: 0, hasMore: false });
+    const entities = createEntities();
+
+    for (const name of ['cache', 'offline', 'options', 'tableOptions', 'sendQueued']) {
+      expect(entities[name]).toBe(entities.getTable(name));
+    }
+    await entities.cache!.list({ limit: 1 });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('/api/v1/tables/cache/records');
+  });
+
   it('delegates writes through the browser transport', async () => {
     const fetchMock = mockFetch({ id: '1', title: 'Created' });
     const entities = createEntities();
@@ -75,4 +96,590 @@ describe('EntitiesModule compatibility facade', () => {
     });
     await expect(entities.Task!.deleteMany({})).rejects.toBeInstanceOf(MitraApiError);
   });
+
+  it('accepts a signal and timeout next to the list options', async () => {
+    const fetchMock = mockAbortableFetch();
+    const entities = createEntities();
+    const controller = new AbortController();
+
+    const result = entities.Task!.list({
+      sort: '-created_at',
+      limit: 10,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    const calledUrl = String(fetchMock.mock.calls[0][0]);
+    expect(calledUrl).toContain('sort=-created_at');
+    expect(calledUrl).not.toContain('signal');
+  });
+
+  it('accepts a per-call retry policy on writes and reads', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: {}, status: 503 },
+      { body: { id: '1', title: 'A' } },
+      { body: {}, status: 503 },
+      { body: { id: '1', done: true } },
+      { body: {}, status: 503 },
+    ]);
+    const entities = createEntities();
+    const retry = { methods: ['POST', 'PUT'], baseDelayMs: 0 };
+
+    await expect(entities.Task!.create({ title: 'A' }, { retry })).resolves.toEqual({
+      id: '1',
+      title: 'A',
+    });
+    await expect(entities.Task!.update('1', { done: true }, { retry: true })).resolves.toEqual({
+      id: '1',
+      done: true,
+    });
+    await expect(entities.Task!.list({ limit: 1, retry: false })).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(fetchMock.mock.calls.map(([, options]) => options.method)).toEqual([
+      'POST',
+      'POST',
+      'PUT',
+      'PUT',
+      'GET',
+    ]);
+    expect(String(fetchMock.mock.calls[4][0])).not.toContain('retry');
+  });
+
+  describe('pagination', () => {
+    const page = (ids: number[], skip: number, total: number) => ({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({
+        data: ids.map((id) => ({ id })),
+        limit: 2,
+        skip,
+        total,
+        hasMore: skip + ids.length < total,
+      }),
+    });
+
+    it('should return a page with its paging metadata', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(page([3, 4], 2, 5));
+      vi.stubGlobal('fetch', fetchMock);
+      const entities = createEntities();
+
+      await expect(
+        entities.Task!.listPage({ sort: '-created_at', limit: 2, skip: 2, fields: ['id', 'title'] })
+      ).resolves.toEqual({ data: [{ id: 3 }, { id: 4 }], total: 5, hasMore: true, nextSkip: 4 });
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe('/data-manager/api/v1/tables/Task/records');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        sort: '-created_at',
+        limit: '2',
+        skip: '2',
+        fields: 'id,title',
+      });
+    });
+
+    it('should reject a page without paging metadata', async () => {
+      mockFetch({ data: [] });
+      const entities = createEntities();
+
+      await expect(entities.Task!.listPage()).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+
+    it('should walk every page lazily', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(page([1, 2], 0, 5))
+        .mockResolvedValueOnce(page([3, 4], 2, 5))
+        .mockResolvedValueOnce(page([5], 4, 5));
+      vi.stubGlobal('fetch', fetchMock);
+      const entities = createEntities();
+
+      const ids: unknown[] = [];
+      const table = entities.getTable<{ id: number }>('Task');
+      for await (const { data } of table.paginate({ pageSize: 2 })) {
+        ids.push(...data.map((record: { id: number }) => record.id));
+        if (ids.length === 2) expect(fetchMock).toHaveBeenCalledOnce();
+      }
+
+      expect(ids).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchMock.mock.calls.map(([url]) => new URL(url).searchParams.get('skip'))).toEqual([
+        '0',
+        '2',
+        '4',
+      ]);
+    });
+
+    it('should stop on an empty page even if the server reports more', async () => {
+      mockFetch({ data: [], limit: 100, skip: 0, total: 3, hasMore: true });
+      const entities = createEntities();
+
+      const pages = [];
+      for await (const current of entities.Task!.paginate()) pages.push(current);
+
+      expect(pages).toHaveLength(1);
+    });
+  });
+
+  describe('filters', () => {
+    it('should send validated filters in the q parameter', async () => {
+      const fetchMock = mockFetch({ data: [{ id: 1 }], total: 1, hasMore: false });
+      const entities = createEntities();
+      const filter = {
+        amount: { $gte: 10 },
+        $or: [{ status: 'paid' }, { status: { $null: true } }],
+      };
+
+      await expect(entities.Task!.filter(filter, '-amount', 10)).resolves.toEqual([{ id: 1 }]);
+      await entities.Task!.filter(filter, { fields: ['id'], skip: 20 });
+
+      const first = new URL(fetchMock.mock.calls[0][0]).searchParams;
+      expect(JSON.parse(first.get('q')!)).toEqual(filter);
+      expect(first.get('sort')).toBe('-amount');
+      expect(first.get('limit')).toBe('10');
+      const second = new URL(fetchMock.mock.calls[1][0]).searchParams;
+      expect(second.get('fields')).toBe('id');
+      expect(second.get('skip')).toBe('20');
+    });
+
+    it('should reject unsupported operators before sending a request', async () => {
+      const fetchMock = mockFetch({ data: [] });
+      const entities = createEntities();
+
+      await expect(entities.Task!.filter({ amount: { $regex: '^1' } })).rejects.toMatchObject({
+        code: 'INVALID_FILTER',
+      });
+      await expect(entities.Task!.deleteMany({ $nor: [] })).rejects.toMatchObject({
+        code: 'INVALID_FILTER',
+      });
+      await expect(
+        entities.Task!.listPage({ filter: { status: { $in: 'paid' } } })
+      ).rejects.toMatchObject({ code: 'INVALID_FILTER' });
+      await expect(entities.Task!.deleteMany({ ownerId: undefined })).rejects.toMatchObject({
+        code: 'INVALID_CONFIGURATION',
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schema validation', () => {
+    const titled: StandardSchemaV1<unknown, { id: number; title: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const record = value as { id: number; title?: unknown };
+          return typeof record.title === 'string'
+            ? { value: { id: record.id, title: record.title.trim() } }
+            : { issues: [{ message: 'Required', path: ['title'] }] };
+        },
+      },
+    };
+
+    it('should validate records from registered tables', async () => {
+      mockFetch({ data: [{ id: 1, title: ' First ' }, { id: 2 }], total: 2, hasMore: false });
+      const entities = createEntities();
+
+      entities.getTable('Task', { schema: titled });
+      const result = entities.Task!.listPage();
+
+      await expect(result).rejects.toMatchObject({
+        code: 'SCHEMA_MISMATCH',
+        details: {
+          table: 'Task',
+          source: 'response',
+          issues: [{ path: [1, 'title'], message: 'Required' }],
+        },
+      });
+    });
+
+    it('should not validate projections narrowed with fields or select', async () => {
+      mockFetch({ data: [{ id: 1 }, { id: 2 }], total: 2, hasMore: false });
+      const entities = createEntities();
+      const table = entities.getTable('Task', { schema: titled });
+
+      await expect(table.query().select(['id']).fetch()).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+      await expect(table.listPage({ fields: ['id'] })).resolves.toMatchObject({ total: 2 });
+      await expect(table.list({ fields: ['id'] })).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+      await expect(table.list({})).rejects.toMatchObject({ code: 'SCHEMA_MISMATCH' });
+    });
+
+    it('should validate create input before sending it', async () => {
+      const fetchMock = mockFetch({ id: 1, title: 'Created ' });
+      const entities = createEntities();
+      const table = entities.getTable('Task', { schema: titled, createSchema: titled });
+
+      await expect(table.create({ id: 1 } as never)).rejects.toMatchObject({
+        code: 'SCHEMA_MISMATCH',
+        details: { source: 'input' },
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await expect(table.create({ id: 1, title: ' Created' })).resolves.toEqual({
+        id: 1,
+        title: 'Created',
+      });
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ id: 1, title: 'Created' });
+    });
+  });
+
+  it('serves cached reads until a write on the table succeeds', async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => ({
+      ok: true,
+      status: 200,
+      json: async () =>
+        init?.method === 'POST' ? { id: 2 } : { data: [{ id: 1 }], total: 1, hasMore: false },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const entities = createEntities({ cache: new QueryCache(true) });
+
+    await Promise.all([entities.Task!.list('-id'), entities.Task!.list('-id')]);
+    await entities.Task!.filter({ id: 1 });
+    await entities.Task!.filter({ id: 1 });
+    await entities.Order!.list('-id');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await entities.Task!.create({ title: 'New' });
+    await entities.Task!.list('-id');
+    await entities.Order!.list('-id');
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  describe('optimistic mutations', () => {
+    const records = {
+      data: [
+        { id: 1, done: false },
+        { id: 2, done: false },
+      ],
+      total: 2,
+      hasMore: false,
+    };
+
+    it('should apply the change to cached reads and commit it', async () => {
+      const fetchMock = mockFetchSequence([
+        { body: records },
+        { body: { id: 1, done: true } },
+        { body: records },
+      ]);
+      const entities = createEntities({ cache: new QueryCache(true) });
+      await entities.Task!.listPage();
+
+      const mutation = entities.Task!.optimisticUpdate('1', { done: true });
+
+      await expect(entities.Task!.listPage()).resolves.toMatchObject({
+        data: [{ id: 1, done: true }, { id: 2, done: false }],
+      });
+      expect(mutation.status).toBe('pending');
+      await mutation.result;
+      expect(mutation.status).toBe('committed');
+      await entities.Task!.listPage();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should roll back and notify listeners when the server rejects the change', async () => {
+      const fetchMock = mockFetchSequence([
+        { body: records },
+        { body: { message: 'Forbidden' }, status: 403 },
+      ]);
+      const entities = createEntities({ cache: new QueryCache(true) });
+      const listener = vi.fn();
+      entities.onMutationRollback(listener);
+      await entities.Task!.list({ sort: 'id' });
+
+      const mutation = entities.Task!.optimisticDelete('2');
+      await expect(entities.Task!.list({ sort: 'id' })).resolves.toEqual([{ id: 1, done: false }]);
+
+      await expect(mutation.result).rejects.toMatchObject({ status: 403 });
+      expect(mutation.status).toBe('rolledBack');
+      await expect(entities.Task!.list({ sort: 'id' })).resolves.toEqual(records.data);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          table: 'Task',
+          type: 'delete',
+          id: '2',
+          error: expect.any(MitraApiError),
+        })
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('queues writes that fail offline and replays them through the records endpoint', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: '1', title: 'Draft' }),
+      });
+    vi.stubGlobal('fetch', fetchMock);
+    const offline = new OfflineQueue({ storage: createMemoryStorage() });
+    const entities = createEntities({ offline });
+
+    const created = entities.Task!.create({ title: 'Draft' });
+    await vi.waitFor(() => expect(offline.status.pending).toBe(1));
+    await offline.replay();
+
+    await expect(created).resolves.toEqual({ id: '1', title: 'Draft' });
+    const [url, options] = fetchMock.mock.calls[1];
+    expect(url).toBe(`${BASE}/api/v1/tables/Task/records`);
+    expect(JSON.parse(options.body)).toEqual({ title: 'Draft' });
+  });
+
+  describe('batch operations', () => {
+    const bulk = (records: unknown[]) => ({ results: records.map((record) => ({ record })) });
+
+    it('should create and upsert records through the bulk endpoints', async () => {
+      const fetchMock = mockFetchSequence([
+        { body: bulk([{ id: 1 }, { id: 2 }]) },
+        { body: bulk([{ id: 3 }]) },
+        { body: bulk([{ id: 1, email: 'a@example.com' }]) },
+      ]);
+      const table = createEntities().getTable<{ id: number; email: string }>('Contact');
+
+      const report = await table.createMany([{ email: 'a' }, { email: 'b' }, { email: 'c' }], {
+        chunkSize: 2,
+      });
+      await expect(
+        table.upsert({ email: 'a@example.com' }, { conflictKeys: ['email'] })
+      ).resolves.toEqual({ id: 1, email: 'a@example.com' });
+
+      expect(report.records).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      const [createUrl, createOptions] = fetchMock.mock.calls[0];
+      expect(createUrl).toBe(`${BASE}/api/v1/tables/Contact/records/bulk`);
+      expect(createOptions.method).toBe('POST');
+      expect(JSON.parse(createOptions.body)).toEqual({ records: [{ email: 'a' }, { email: 'b' }] });
+      const [upsertUrl, upsertOptions] = fetchMock.mock.calls[2];
+      expect(upsertUrl).toBe(`${BASE}/api/v1/tables/Contact/records/upsert`);
+      expect(JSON.parse(upsertOptions.body)).toEqual({
+        conflictKeys: ['email'],
+        records: [{ email: 'a@example.com' }],
+      });
+    });
+
+    it('should not serve cached reads that hide chunks already written', async () => {
+      const page = (data: unknown[]) => ({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({ data, limit: 10, skip: 0, total: data.length }),
+      });
+      let failSecondChunk!: () => void;
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(page([{ id: 1 }]))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => bulk([{ id: 2 }]) })
+        .mockImplementationOnce(
+          () =>
+            new Promise((resolve) => {
+              failSecondChunk = () => resolve({ ok: false, status: 503, json: async () => ({}) });
+            })
+        )
+        .mockResolvedValueOnce(page([{ id: 1 }, { id: 2 }]));
+      vi.stubGlobal('fetch', fetchMock);
+      const table = createEntities({ cache: new QueryCache(true) }).getTable('Task');
+
+      await expect(table.list({})).resolves.toEqual([{ id: 1 }]);
+      const report = table.createMany([{ title: 'b' }, { title: 'c' }], { chunkSize: 1 });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+
+      await expect(table.list({})).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+      failSecondChunk();
+      await expect(report).resolves.toMatchObject({
+        records: [{ id: 2 }],
+        failures: [{ index: 1, error: { status: 503 } }],
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should update every matching record by ID', async () => {
+      const fetchMock = mockFetchSequence([
+        { body: { data: [{ id: 7 }, { id: 9 }], total: 2, hasMore: false } },
+        {
+          body: {
+            results: [
+              { record: { id: 7, done: true } },
+              { error: { message: 'Locked', status: 423 } },
+            ],
+          },
+        },
+      ]);
+      const table = createEntities().getTable<{ id: number; done: boolean }>('Task');
+
+      const report = await table.updateMany({ done: false }, { done: true });
+
+      const lookup = new URL(fetchMock.mock.calls[0][0]).searchParams;
+      expect(lookup.get('q')).toBe('{"done":false}');
+      expect(lookup.get('fields')).toBe('id');
+      const [url, options] = fetchMock.mock.calls[1];
+      expect(url).toBe(`${BASE}/api/v1/tables/Task/records/bulk`);
+      expect(options.method).toBe('PATCH');
+      expect(JSON.parse(options.body)).toEqual({
+        records: [
+          { id: '7', done: true },
+          { id: '9', done: true },
+        ],
+      });
+      expect(report.failures).toEqual([
+        expect.objectContaining({
+          index: 1,
+          input: '9',
+          error: expect.objectContaining({ status: 423 }),
+        }),
+      ]);
+      await expect(table.updateMany({}, { done: true })).rejects.toMatchObject({
+        code: 'INVALID_CONFIGURATION',
+      });
+    });
+  });
+
+  it('compiles fluent queries to the records endpoint', async () => {
+    const fetchMock = mockFetch({ data: [{ id: 1, title: 'Open' }], total: 1, hasMore: false });
+    const entities = createEntities();
+
+    const tasks = await entities
+      .getTable<{ id: number; title: string; status: string }>('Task')
+      .query()
+      .where('status', '=', 'open')
+      .orderBy('id', 'desc')
+      .select(['id', 'title'])
+      .limit(20)
+      .fetch();
+
+    expect(tasks).toEqual([{ id: 1, title: 'Open' }]);
+    const params = new URL(fetchMock.mock.calls[0][0]).searchParams;
+    expect(Object.fromEntries(params)).toEqual({
+      q: '{"status":{"$eq":"open"}}',
+      sort: '-id',
+      limit: '20',
+      skip: '0',
+      fields: 'id,title',
+    });
+  });
+
+  it('subscribes to record changes and invalidates cached reads', async () => {
+    const changes = createByteStream([
+      'id: c1\nevent: update\ndata: {"record":{"id":1,"status":"done"}}\n\n',
+    ]);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [{ id: 1 }], total: 1, hasMore: false }),
+      })
+      .mockResolvedValueOnce({ ok: true, status: 200, body: changes })
+      .mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [{ id: 1, status: 'done' }], total: 1, hasMore: false }),
+      });
+    vi.stubGlobal('fetch', fetchMock);
+    const entities = createEntities({ cache: new QueryCache(true) });
+    await entities.Task!.list({ sort: 'id' });
+    const callback = vi.fn();
+
+    const unsubscribe = entities.Task!.subscribe({ status: 'done' }, callback);
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledOnce());
+    unsubscribe();
+
+    expect(callback).toHaveBeenCalledWith({ type: 'update', record: { id: 1, status: 'done' } });
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe(
+      `${BASE}/api/v1/tables/Task/records/changes?q=${encodeURIComponent('{"status":"done"}')}`
+    );
+    expect(init.headers.Accept).toBe('text/event-stream');
+    await expect(entities.Task!.list({ sort: 'id' })).resolves.toEqual([
+      { id: 1, status: 'done' },
+    ]);
+  });
+
+  it('counts and aggregates records on the server', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { data: [{ id: 1 }], total: 12, hasMore: true } },
+      { body: { data: [{ status: 'paid', orders: 2, total: 30 }] } },
+    ]);
+    type Order = { id: number; status: string; amount: number };
+    const orders = createEntities().getTable<Order>('Order');
+
+    await expect(orders.count({ status: 'open' })).resolves.toBe(12);
+    const rows: Array<{ status: string; orders: number; total: number | null }> =
+      await orders.aggregate({
+        groupBy: ['status'],
+        metrics: { orders: count(), total: sum('amount') },
+        filter: { amount: { $gt: 0 } },
+      });
+
+    expect(rows).toEqual([{ status: 'paid', orders: 2, total: 30 }]);
+    expect(Object.fromEntries(new URL(fetchMock.mock.calls[0][0]).searchParams)).toEqual({
+      q: '{"status":"open"}',
+      fields: 'id',
+      limit: '1',
+    });
+    const [url] = fetchMock.mock.calls[1];
+    expect(url).toMatch(`${BASE}/api/v1/tables/Order/records/aggregate?`);
+    expect(Object.fromEntries(new URL(url).searchParams)).toEqual({
+      q: '{"amount":{"$gt":0}}',
+      metrics: '{"orders":{"fn":"count"},"total":{"fn":"sum","field":"amount"}}',
+      groupBy: 'status',
+    });
+    // @ts-expect-error unknown metric field
+    void orders.aggregate({ metrics: { total: sum('price') } }).catch(() => undefined);
+  });
+
+  it('expands relations with batched lookups when the server does not join them', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { data: [{ id: 1, customerId: 7 }], total: 1, hasMore: false } },
+      { body: { data: [{ id: 7, name: 'Ada' }], total: 1, hasMore: false } },
+      { body: { id: 1, customerId: 7, customer: { id: 7, name: 'Ada' } } },
+    ]);
+    type Order = { id: number; customerId: number };
+    type Customer = { id: number; name: string };
+    const orders = createEntities().getTable<Order, { customer: Customer | null }>('Order', {
+      relations: { customer: { type: 'one', table: 'Customer', field: 'customerId' } },
+    });
+
+    const [order] = await orders.list({ sort: 'id', expand: ['customer'] });
+    const single = await orders.get('1', { expand: ['customer'] });
+
+    expect(order.customer?.name).toBe('Ada');
+    expect(single.customer).toEqual({ id: 7, name: 'Ada' });
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('expand')).toBe('customer');
+    const lookup = new URL(fetchMock.mock.calls[1][0]);
+    expect(lookup.pathname).toBe('/data-manager/api/v1/tables/Customer/records');
+    expect(lookup.searchParams.get('q')).toBe('{"id":{"$in":[7]}}');
+    expect(fetchMock.mock.calls[2][0]).toBe(
+      `${BASE}/api/v1/tables/Order/records/1?expand=customer`
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    // @ts-expect-error unknown relation
+    void orders.listPage({ expand: ['owner'] }).catch(() => undefined);
+  });
+
+  it('keeps joined relations when the row schema strips unknown keys', async () => {
+    const joined = { id: 1, customerId: 7, customer: { id: 7, name: 'Ada' } };
+    const fetchMock = mockFetchSequence([
+      { body: { data: [joined], total: 1, hasMore: false } },
+      { body: joined },
+    ]);
+    type Order = { id: number; customerId: number };
+    const strict: StandardSchemaV1<unknown, Order> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const { id, customerId } = value as Order;
+          return { value: { id, customerId } };
+        },
+      },
+    };
+    const orders = createEntities().getTable('Order', { schema: strict });
+
+    const page = await orders.listPage({ expand: ['customer'] } as never);
+    const single = await orders.get('1', { expand: ['customer'] } as never);
+
+    expect(page.data).toEqual([joined]);
+    expect(single).toEqual(joined);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
 });
@@ -4,30 +4,101 @@ import {
 } from '@mitralab.io/sdk-core';
 import { coreErrors } from '../core-errors';
 import { HttpClient } from '../utils/http-client';
-import type { EntityTable } from './entities.types';
+import { QueryCache } from '../utils/query-cache';
+import { createEntityTable } from './entity-table';
+import { OfflineQueue, type QueuedMutation } from './offline';
+import type {
+  EntityMutationRollback,
+  EntitySchemas,
+  EntityTable,
+  EntityTableOptions,
+  TypedEntityTable,
+} from './entities.types';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+export type { EntityQuery, SortDirection, WhereOperator, WhereValue } from './entity-query';
+export type { SchemaIssue, SchemaSource } from './entity-schema';
+export type { StandardSchemaV1 } from '../utils/standard-schema';
 
-export type { EntityListOptions, EntityTable } from './entities.types';
+export type {
+  EntityFilter,
+  EntityListOptions,
+  EntityMutationRollback,
+  EntityPage,
+  EntityPageOptions,
+  EntityPaginateOptions,
+  EntitySchema,
+  EntitySchemas,
+  EntityTable,
+  EntityTableOptions,
+  TypedEntityTable,
+  FilterOperators,
+  FilterScalar,
+  MutationStatus,
+  OptimisticMutation,
+  EntityRelation,
+  Expanded,
+  AggregateFunction,
+  AggregateMetric,
+  AggregateOptions,
+  AggregateRow,
+  AggregateValue,
+  BatchFailure,
+  BatchItemResult,
+  BatchOptions,
+  BatchReport,
+  UpsertOptions,
+  RecordChangeCallback,
+  RecordChangeEvent,
+  SubscribeOptions,
+} from './entities.types';
+
+/**
+ * Client-wide services shared by the entity tables.
+ * @internal
+ */
+export interface EntitiesModuleOptions {
+  cache?: QueryCache;
+  offline?: OfflineQueue;
+  /** Registers a callback for access token refreshes; returns an unsubscribe function. */
+  onTokenRefreshed?: (callback: () => void) => () => void;
+}
 
 /**
  * Compatibility facade for the Platform SDK 1.x entity API.
  * Shared request behavior lives in `@mitralab.io/sdk-core`.
  */
 export class EntitiesModule {
-  private core: CoreEntitiesProxy;
+  // Private state uses `#` fields so that no table name is shadowed by a module member
+  readonly #httpClient: HttpClient;
+  readonly #options: EntitiesModuleOptions;
+  #core: CoreEntitiesProxy;
+  #tables = new Map<string, EntityTable<never>>();
+  #tableOptions = new Map<string, EntityTableOptions<never>>();
+  readonly #rollbackListeners = new Set<(event: EntityMutationRollback) => void>();
+  readonly #cache: QueryCache;
+  readonly #offline: OfflineQueue;
 
-  constructor(
-    private readonly httpClient: HttpClient,
-    _dataSourceId: string
-  ) {
-    this.core = createEntitiesModule(httpClient, coreErrors);
+  constructor(httpClient: HttpClient, _dataSourceId: string, options: EntitiesModuleOptions = {}) {
+    this.#httpClient = httpClient;
+    this.#options = options;
+    this.#core = createEntitiesModule(httpClient, coreErrors);
+    this.#cache = options.cache ?? new QueryCache();
+    this.#offline = options.offline ?? new OfflineQueue();
+    this.#offline.start((mutation) => this.#sendQueued(mutation));
   }
 
-  static createProxy(httpClient: HttpClient, dataSourceId: string): EntitiesModule {
-    const instance = new EntitiesModule(httpClient, dataSourceId);
+  static createProxy(
+    httpClient: HttpClient,
+    dataSourceId: string,
+    options?: EntitiesModuleOptions
+  ): EntitiesModule {
+    const instance = new EntitiesModule(httpClient, dataSourceId, options);
     return new Proxy(instance, {
-      get(target, property, receiver) {
+      get(target, property) {
         if (typeof property !== 'string' || property in target) {
-          return Reflect.get(target, property, receiver) as unknown;
+          const value = Reflect.get(target, property) as unknown;
+          // Methods read `#` fields, which exist on the module but not on the proxy
+          return typeof value === 'function' ? value.bind(target) : value;
         }
         return target.getTable(property);
       },
@@ -39,14 +110,116 @@ export class EntitiesModule {
    * Records now resolve the app from authenticated context instead of a data source path.
    */
   setDataSourceId(_dataSourceId: string): void {
-    this.core = createEntitiesModule(this.httpClient, coreErrors);
+    this.#core = createEntitiesModule(this.#httpClient, coreErrors);
+    this.#tables = new Map();
   }
 
-  getTable<T = Record<string, unknown>>(tableName: string): EntityTable<T> {
-    return this.core.getTable<T>(tableName);
+  /**
+   * Returns the table facade for `tableName`.
+   *
+   * Passing `options` registers Standard Schema validators and relations for
+   * the table: later calls, including `mitra.entities[tableName]`, return the
+   * configured table until other options are registered for the same name.
+   */
+  getTable<K extends keyof EntitySchemas>(
+    tableName: K,
+    options?: EntityTableOptions<EntitySchemas[K]['row']>
+  ): TypedEntityTable<K>;
+  getTable<S extends StandardSchemaV1>(
+    tableName: string,
+    options: EntityTableOptions<StandardSchemaV1.InferOutput<S>> & { schema: S }
+  ): EntityTable<StandardSchemaV1.InferOutput<S>>;
+  getTable<T = Record<string, unknown>, Rel = Record<string, unknown>>(
+    tableName: string,
+    options?: EntityTableOptions<T>
+  ): EntityTable<T, Partial<T>, Partial<T>, Rel>;
+  getTable<T = Record<string, unknown>>(
+    tableName: string,
+    options?: EntityTableOptions<T>
+  ): EntityTable<T> {
+    if (options) {
+      this.#tableOptions.set(tableName, options as EntityTableOptions<never>);
+      this.#tables.delete(tableName);
+      this.#cache.invalidateTable(tableName);
+    }
+    let table = this.#tables.get(tableName) as EntityTable<T> | undefined;
+    if (!table) {
+      table = createEntityTable<T>(
+        this.#httpClient,
+        tableName,
+        this.#core.getTable<T>(tableName),
+        this.#tableOptions.get(tableName) as EntityTableOptions<T> | undefined,
+        {
+          cache: this.#cache,
+          offline: this.#offline,
+          onRollback: (event) => this.#notifyRollback(event),
+          onTokenRefreshed: this.#options.onTokenRefreshed,
+        }
+      );
+      this.#tables.set(tableName, table as EntityTable<never>);
+    }
+    return table;
+  }
+
+  /**
+   * Registers a callback for optimistic mutations rolled back after the
+   * server rejected them, on any table.
+   *
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```typescript
+   * const unsub = mitra.entities.onMutationRollback(({ table, error }) => {
+   *   toast.error(`Could not save ${table}: ${error.message}`);
+   * });
+   * ```
+   */
+  onMutationRollback(callback: (event: EntityMutationRollback) => void): () => void {
+    this.#rollbackListeners.add(callback);
+
+    return () => {
+      this.#rollbackListeners.delete(callback);
+    };
+  }
+
+  async #sendQueued(mutation: QueuedMutation): Promise<unknown> {
+    const table = this.#core.getTable(mutation.table);
+    const id = String(mutation.recordId);
+    const data = mutation.data as Record<string, unknown>;
+    let result: unknown;
+    switch (mutation.type) {
+      case 'create':
+        result = await table.create(data);
+        break;
+      case 'update':
+        result = await table.update(id, data);
+        break;
+      case 'delete':
+        result = await table.delete(id);
+        break;
+    }
+    this.#cache.invalidateTable(mutation.table);
+    return result;
+  }
+
+  #notifyRollback(event: EntityMutationRollback): void {
+    this.#rollbackListeners.forEach((callback) => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Mutation rollback listener error:', error);
+      }
+    });
   }
 }
 
+/**
+ * `mitra.entities`: the module methods plus one table per property. Tables
+ * registered in {@link EntitySchemas} are typed; any other name returns an
+ * untyped table.
+ */
 export type EntitiesProxy = EntitiesModule & {
+  [K in keyof EntitySchemas]: TypedEntityTable<K>;
+} & {
   [tableName: string]: EntityTable;
 };
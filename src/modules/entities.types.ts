@@ -1 +1,564 @@
-export type { EntityListOptions, EntityTable } from '@mitralab.io/sdk-core';
+import type {
+  EntityListOptions as CoreEntityListOptions,
+  EntityTable as CoreEntityTable,
+} from '@mitralab.io/sdk-core';
+import type { CallOptions, MitraApiError } from '../utils/http-client';
+import type { EntityQuery } from './entity-query';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+
+/** Options for `EntityTable.list`, including per-call cancellation and timeout. */
+export type EntityListOptions = CoreEntityListOptions & CallOptions;
+
+/** Scalar values a filter can compare against. Dates are sent as ISO 8601 strings. */
+export type FilterScalar = string | number | boolean | Date | null;
+
+/** Operators available for one field in an {@link EntityFilter}. */
+export interface FilterOperators<V = FilterScalar> {
+  /** Equal to. */
+  $eq?: V;
+  /** Not equal to. */
+  $ne?: V;
+  /** Greater than. */
+  $gt?: V;
+  /** Greater than or equal to. */
+  $gte?: V;
+  /** Less than. */
+  $lt?: V;
+  /** Less than or equal to. */
+  $lte?: V;
+  /** Equal to any of the values. */
+  $in?: V[];
+  /** Equal to none of the values. */
+  $nin?: V[];
+  /** Matches a SQL `LIKE` pattern (`%` and `_` wildcards), case-sensitive. */
+  $like?: string;
+  /** Matches a SQL `LIKE` pattern, case-insensitive. */
+  $ilike?: string;
+  /** `true` matches null values, `false` matches non-null values. */
+  $null?: boolean;
+}
+
+/**
+ * Filter for entity queries. A plain value matches by equality; an object of
+ * operators applies each of them. `$or` and `$and` combine nested filters.
+ *
+ * @example
+ * ```typescript
+ * const filter: EntityFilter<Order> = {
+ *   amount: { $gte: 10, $lt: 100 },
+ *   status: { $in: ['paid', 'shipped'] },
+ *   $or: [{ customer: { $ilike: '%acme%' } }, { priority: true }],
+ * };
+ * ```
+ */
+export type EntityFilter<T = Record<string, unknown>> = {
+  [K in keyof T]?: T[K] | FilterOperators<T[K]>;
+} & {
+  /** Matches records that match any of the filters. */
+  $or?: EntityFilter<T>[];
+  /** Matches records that match all of the filters. */
+  $and?: EntityFilter<T>[];
+};
+
+/**
+ * Foreign-key relation of a table, used by `expand` when the server does not
+ * join the related records itself.
+ *
+ * - `one`: `field` of this table holds the ID of one related record.
+ * - `many`: `field` of the related table holds the ID of this record.
+ *
+ * @example
+ * ```typescript
+ * const relations = {
+ *   customer: { type: 'one', table: 'Customer', field: 'customerId' },
+ *   items: { type: 'many', table: 'OrderItem', field: 'orderId' },
+ * } satisfies Record<string, EntityRelation>;
+ * ```
+ */
+export interface EntityRelation {
+  type: 'one' | 'many';
+  /** Related table. */
+  table: string;
+  /** Foreign-key field that links the two tables. */
+  field: string;
+}
+
+/** `T` with the relations `E` of `Rel` nested as records. */
+export type Expanded<T, Rel, E extends keyof Rel> = T & { [K in E]: Rel[K] };
+
+/**
+ * Options registered for a table with `getTable`: Standard Schema validators,
+ * such as Zod, Valibot, or ArkType schemas, and relations.
+ */
+export interface EntityTableOptions<T = Record<string, unknown>> {
+  /**
+   * Validates every record returned by `list`, `filter`, `listPage`,
+   * `paginate`, queries, `get`, `create`, and `update`. Records are returned
+   * as the schema outputs them.
+   */
+  schema?: StandardSchemaV1<unknown, T>;
+  /** Validates `create` input before it is sent; the schema output is sent. */
+  createSchema?: StandardSchemaV1;
+  /** Validates `update` input before it is sent; the schema output is sent. */
+  updateSchema?: StandardSchemaV1;
+  /** Relations that `expand` resolves, keyed by the name of the nested field. */
+  relations?: Record<string, EntityRelation>;
+}
+
+/** Options for `EntityTable.listPage`. */
+export interface EntityPageOptions<T = Record<string, unknown>> extends CallOptions {
+  /** Only return records matching this filter. */
+  filter?: EntityFilter<T>;
+  /** Sort field, prefixed with `-` for descending order. */
+  sort?: string;
+  /** Maximum number of records in the page. */
+  limit?: number;
+  /** Number of records to skip. */
+  skip?: number;
+  /** Fields to return for each record. */
+  fields?: string[];
+}
+
+/** Options for `EntityTable.paginate`. */
+export interface EntityPaginateOptions<T = Record<string, unknown>>
+  extends Omit<EntityPageOptions<T>, 'limit'> {
+  /** Records fetched per request (default: 100). */
+  pageSize?: number;
+}
+
+/** One page of records with the paging metadata returned by the records endpoint. */
+export interface EntityPage<T> {
+  /** Records in this page. */
+  data: T[];
+  /** Total number of records matching the request. */
+  total: number;
+  /** Whether more records follow this page. */
+  hasMore: boolean;
+  /** `skip` value for the next page, or null on the last page. */
+  nextSkip: number | null;
+}
+
+/** Options for `createMany`, `updateMany`, and `upsert`. */
+export interface BatchOptions extends CallOptions {
+  /** Records sent per request. Defaults to 100. */
+  chunkSize?: number;
+  /** Maximum number of requests in flight. Defaults to 4. */
+  concurrency?: number;
+}
+
+/** Options for `upsert`. */
+export interface UpsertOptions<T> extends BatchOptions {
+  /** Columns that identify an existing record; it is updated instead of duplicated. */
+  conflictKeys: Array<keyof T & string>;
+}
+
+/** Outcome of one record of a batch operation. */
+export type BatchItemResult<T> =
+  | { index: number; input: unknown; ok: true; record: T }
+  | { index: number; input: unknown; ok: false; error: MitraApiError };
+
+/** A record that a batch operation could not write, with the reason. */
+export type BatchFailure = Extract<BatchItemResult<unknown>, { ok: false }>;
+
+/** Per-record report of a batch operation. */
+export interface BatchReport<T> {
+  /** One result per input record, in input order. `index` is the input position. */
+  results: BatchItemResult<T>[];
+  /** Records as stored, in input order. */
+  records: T[];
+  /** Records that failed, with the input and the error. */
+  failures: BatchFailure[];
+}
+
+/** Aggregate functions accepted by `EntityTable.aggregate`. */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * One metric of an aggregation, created with `count`, `sum`, `avg`, `min`,
+ * or `max`. `field` is unset for a `count` of records.
+ */
+export interface AggregateMetric<
+  Fn extends AggregateFunction = AggregateFunction,
+  F extends string = string,
+> {
+  readonly fn: Fn;
+  readonly field?: F;
+}
+
+/** Options for `EntityTable.aggregate`. */
+export interface AggregateOptions<
+  T,
+  G extends keyof T & string,
+  M extends Record<string, AggregateMetric<AggregateFunction, keyof T & string>>,
+> extends CallOptions {
+  /** Metrics to compute, keyed by their name in the result rows. */
+  metrics: M;
+  /** Fields to group by. Without it, the result has one row over all matching records. */
+  groupBy?: G[];
+  /** Records to aggregate. Defaults to all records. */
+  filter?: EntityFilter<T>;
+}
+
+/**
+ * Value of a metric: a number for `count`, `sum`, and `avg`, and the field
+ * type for `min` and `max`. Metrics other than `count` are null without records.
+ */
+export type AggregateValue<T, M> =
+  M extends AggregateMetric<'count'>
+    ? number
+    : M extends AggregateMetric<'min' | 'max', infer F>
+      ? (F extends keyof T ? T[F] : never) | null
+      : number | null;
+
+/** One result row of `EntityTable.aggregate`: the group fields and the metric values. */
+export type AggregateRow<T, G extends keyof T, M> = Pick<T, G> & {
+  [K in keyof M]: AggregateValue<T, M[K]>;
+};
+
+/** State of an optimistic mutation. */
+export type MutationStatus = 'pending' | 'committed' | 'rolledBack';
+
+/** Handle returned by `optimisticUpdate` and `optimisticDelete`. */
+export interface OptimisticMutation<R> {
+  /** `pending` until the server answers, then `committed` or `rolledBack`. */
+  readonly status: MutationStatus;
+  /** Resolves with the server result, or rejects after the change was rolled back. */
+  readonly result: Promise<R>;
+}
+
+/** Event emitted by `entities.onMutationRollback` when an optimistic mutation fails. */
+export interface EntityMutationRollback {
+  /** Table the mutation targeted. */
+  table: string;
+  /** Kind of mutation that was rolled back. */
+  type: 'update' | 'delete';
+  /** ID of the record. */
+  id: string;
+  /** Changes of an `update`. */
+  data?: unknown;
+  /** Error the server responded with. */
+  error: MitraApiError;
+}
+
+/**
+ * Change delivered by `EntityTable.subscribe`. `resync` means changes may
+ * have been missed while disconnected; reload the data the app shows.
+ */
+export type RecordChangeEvent<T> =
+  | { type: 'insert' | 'update'; record: T }
+  | { type: 'delete'; id: string }
+  | { type: 'resync' };
+
+/** Callback for `EntityTable.subscribe`. */
+export type RecordChangeCallback<T> = (event: RecordChangeEvent<T>) => void;
+
+/** Options for `EntityTable.subscribe`. */
+export interface SubscribeOptions {
+  /** Ends the subscription when aborted. */
+  signal?: AbortSignal;
+  /** First reconnect delay in milliseconds, doubled per failed attempt. Defaults to 1000. */
+  reconnectDelayMs?: number;
+  /** Upper bound for the reconnect delay in milliseconds. Defaults to 30000. */
+  maxReconnectDelayMs?: number;
+  /**
+   * Called when an event cannot be read or validated, and when the server
+   * rejects the subscription. The subscription ends after a rejection.
+   */
+  onError?: (error: MitraApiError) => void;
+}
+
+/**
+ * Table facade returned by `mitra.entities`.
+ * Extends the shared sdk-core table with Platform SDK features.
+ *
+ * `C` and `U` are the inputs accepted by `create` and `update`; both default
+ * to `Partial<T>`. `Rel` maps relation names to the nested types `expand` returns.
+ */
+export type EntityTable<
+  T = Record<string, unknown>,
+  C = Partial<T>,
+  U = Partial<T>,
+  Rel = Record<string, unknown>,
+> = Omit<CoreEntityTable<T>, 'create' | 'update' | 'delete'> & {
+  /** Creates a record and returns it as stored. */
+  create(data: C, options?: CallOptions): Promise<T>;
+
+  /**
+   * Updates a record by ID and returns it as stored.
+   *
+   * @example
+   * ```typescript
+   * await mitra.entities.Task.update(task.id, { done: true }, { retry: true });
+   * ```
+   */
+  update(id: string, data: U, options?: CallOptions): Promise<T>;
+
+  /** Deletes a record by ID. */
+  delete(id: string, options?: CallOptions): Promise<void>;
+
+  /**
+   * Lists records with related records nested under the relation names.
+   *
+   * @example
+   * ```typescript
+   * const orders = await mitra.entities.Order.list({ expand: ['customer', 'items'] });
+   * console.log(orders[0].customer?.name, orders[0].items.length);
+   * ```
+   */
+  list<E extends keyof Rel & string>(
+    options: EntityListOptions & { expand: E[] }
+  ): Promise<Array<Expanded<T, Rel, E>>>;
+
+  /**
+   * Lists records. Accepts `signal` and `timeoutMs` next to the list options.
+   *
+   * @example
+   * ```typescript
+   * const tasks = await mitra.entities.Task.list({
+   *   sort: '-created_at',
+   *   limit: 20,
+   *   signal: controller.signal,
+   * });
+   * ```
+   */
+  list(options: EntityListOptions): Promise<T[]>;
+
+  /** Reads a record by ID with related records nested under the relation names. */
+  get<E extends keyof Rel & string>(
+    id: string,
+    options: CallOptions & { expand: E[] }
+  ): Promise<Expanded<T, Rel, E>>;
+
+  /** Lists records matching a filter with related records nested. */
+  filter<E extends keyof Rel & string>(
+    query: EntityFilter<T>,
+    options: EntityListOptions & { expand: E[] }
+  ): Promise<Array<Expanded<T, Rel, E>>>;
+
+  /**
+   * Lists records matching a filter. Operators are validated before the
+   * request is sent; unsupported ones fail with code `INVALID_FILTER`.
+   *
+   * @example
+   * ```typescript
+   * const orders = await mitra.entities.Order.filter(
+   *   { amount: { $gte: 10 }, status: { $in: ['paid', 'shipped'] } },
+   *   '-created_at',
+   *   50
+   * );
+   * ```
+   */
+  filter(query: EntityFilter<T>, sort?: string, limit?: number, skip?: number): Promise<T[]>;
+
+  /** Lists records matching a filter, with the list options as an object. */
+  filter(query: EntityFilter<T>, options?: EntityListOptions): Promise<T[]>;
+
+  /**
+   * Deletes every record matching a filter. Accepts the same operators as
+   * `filter`; an empty filter is rejected.
+   */
+  deleteMany(query: EntityFilter<T>): ReturnType<CoreEntityTable<T>['deleteMany']>;
+
+  /** Lists one page of records with related records nested. */
+  listPage<E extends keyof Rel & string>(
+    options: EntityPageOptions<T> & { expand: E[] }
+  ): Promise<EntityPage<Expanded<T, Rel, E>>>;
+
+  /**
+   * Lists one page of records together with the total count and paging state.
+   *
+   * @example
+   * ```typescript
+   * const page = await mitra.entities.Task.listPage({ limit: 20, skip: 40 });
+   * console.log(page.data, page.total, page.nextSkip);
+   * ```
+   */
+  listPage(options?: EntityPageOptions<T>): Promise<EntityPage<T>>;
+
+  /** Walks all records page by page with related records nested. */
+  paginate<E extends keyof Rel & string>(
+    options: EntityPaginateOptions<T> & { expand: E[] }
+  ): AsyncGenerator<EntityPage<Expanded<T, Rel, E>>, void, undefined>;
+
+  /**
+   * Walks all records page by page. Each page is requested only when the
+   * iteration reaches it, so breaking out of the loop stops the requests.
+   *
+   * @example
+   * ```typescript
+   * for await (const page of mitra.entities.Task.paginate({ pageSize: 500 })) {
+   *   rows.push(...page.data);
+   * }
+   * ```
+   */
+  paginate(options?: EntityPaginateOptions<T>): AsyncGenerator<EntityPage<T>, void, undefined>;
+
+  /**
+   * Starts a fluent query whose field names are checked against `T`.
+   *
+   * @example
+   * ```typescript
+   * const tasks = await mitra.entities
+   *   .getTable<Task>('Task')
+   *   .query()
+   *   .where('status', '=', 'open')
+   *   .orderBy('created_at', 'desc')
+   *   .select(['id', 'title'])
+   *   .limit(20)
+   *   .fetch();
+   * ```
+   */
+  query(): EntityQuery<T, T, Rel>;
+
+  /**
+   * Applies an update to the cached reads of the table right away, then sends
+   * it. If the request fails, the cached reads are restored and
+   * `entities.onMutationRollback` listeners are notified.
+   *
+   * @example
+   * ```typescript
+   * const { result } = mitra.entities.Task.optimisticUpdate(task.id, { done: true });
+   * render(await mitra.entities.Task.list()); // already shows the task as done
+   * await result;
+   * ```
+   */
+  optimisticUpdate(id: string, data: U): OptimisticMutation<T>;
+
+  /**
+   * Removes a record from the cached reads of the table right away, then
+   * deletes it, restoring the cached reads if the request fails.
+   */
+  optimisticDelete(id: string): OptimisticMutation<void>;
+
+  /**
+   * Creates many records in chunks of `chunkSize`, sending up to `concurrency`
+   * chunks at once. Never rejects for individual records; the report lists
+   * which records failed and why.
+   *
+   * @example
+   * ```typescript
+   * const report = await mitra.entities.Contact.createMany(rows, { chunkSize: 200 });
+   * for (const { index, error } of report.failures) {
+   *   console.warn(`Row ${index + 1}: ${error.message}`);
+   * }
+   * ```
+   */
+  createMany(records: C[], options?: BatchOptions): Promise<BatchReport<T>>;
+
+  /**
+   * Applies `patch` to every record matching `filter`. An empty filter is
+   * rejected; results are reported per matched record.
+   */
+  updateMany(filter: EntityFilter<T>, patch: U, options?: BatchOptions): Promise<BatchReport<T>>;
+
+  /**
+   * Creates a record, or updates the record with the same `conflictKeys`
+   * values, and returns it as stored.
+   *
+   * @example
+   * ```typescript
+   * await mitra.entities.Contact.upsert(contact, { conflictKeys: ['email'] });
+   * ```
+   */
+  upsert(record: C, options: UpsertOptions<T>): Promise<T>;
+
+  /** Upserts many records in chunks, with a per-record report. */
+  upsert(records: C[], options: UpsertOptions<T>): Promise<BatchReport<T>>;
+
+  /**
+   * Counts the records matching `filter`, or all records of the table.
+   *
+   * @example
+   * ```typescript
+   * const open = await mitra.entities.Task.count({ status: 'open' });
+   * ```
+   */
+  count(filter?: EntityFilter<T>, options?: CallOptions): Promise<number>;
+
+  /**
+   * Computes metrics over the matching records on the server, per group of
+   * `groupBy` values.
+   *
+   * @example
+   * ```typescript
+   * const rows = await mitra.entities.Order.aggregate({
+   *   groupBy: ['status'],
+   *   metrics: { orders: count(), total: sum('amount') },
+   *   filter: { createdAt: { $gte: startOfMonth } },
+   * });
+   * // [{ status: 'paid', orders: 12, total: 840 }, ...]
+   * ```
+   */
+  aggregate<
+    M extends Record<string, AggregateMetric<AggregateFunction, keyof T & string>>,
+    G extends keyof T & string = never,
+  >(
+    options: AggregateOptions<T, G, M>
+  ): Promise<Array<AggregateRow<T, G, M>>>;
+
+  /**
+   * Delivers record changes of this table as they happen, over Server-Sent
+   * Events authenticated with the current access token. The connection
+   * reconnects with backoff and after token refreshes, and the server
+   * replays the changes missed in between.
+   *
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```typescript
+   * const unsub = mitra.entities.Task.subscribe({ status: 'open' }, (event) => {
+   *   if (event.type === 'resync') void reload();
+   *   else applyChange(event);
+   * });
+   * ```
+   */
+  subscribe(
+    filter: EntityFilter<T>,
+    callback: RecordChangeCallback<T>,
+    options?: SubscribeOptions
+  ): () => void;
+
+  /** Delivers all record changes of this table. */
+  subscribe(callback: RecordChangeCallback<T>, options?: SubscribeOptions): () => void;
+};
+
+/**
+ * Record, create, and update types of one table, as registered in
+ * {@link EntitySchemas}.
+ */
+export interface EntitySchema<
+  Row,
+  Create = Partial<Row>,
+  Update = Partial<Create>,
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type -- no relations by default
+  Relations = {},
+> {
+  row: Row;
+  create: Create;
+  update: Update;
+  /** Nested types returned by `expand`, keyed by relation name. */
+  relations: Relations;
+}
+
+/**
+ * Registry of typed tables, keyed by table name. Empty by default; the
+ * `mitra-entity-types` generator augments it so `mitra.entities.<Table>` and
+ * `getTable('<Table>')` return typed tables.
+ *
+ * @example
+ * ```typescript
+ * declare module '@mitralab.io/platform-sdk' {
+ *   interface EntitySchemas {
+ *     Task: EntitySchema<TaskRow, TaskCreateInput>;
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type -- augmented by applications
+export interface EntitySchemas {}
+
+/** Typed table for a table registered in {@link EntitySchemas}. */
+export type TypedEntityTable<K extends keyof EntitySchemas> =
+  EntitySchemas[K] extends EntitySchema<infer Row, infer Create, infer Update, infer Relations>
+    ? EntityTable<Row, Create, Update, Relations>
+    : EntityTable;
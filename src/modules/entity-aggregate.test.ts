@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { avg, count, max, readAggregateRows, serializeAggregation, sum } from './entity-aggregate';
+
+describe('serializeAggregation', () => {
+  it('should serialize metrics and group fields as query parameters', () => {
+    expect(
+      serializeAggregation({ orders: count(), total: sum('amount'), top: max('amount') }, [
+        'status',
+        'region',
+      ])
+    ).toEqual({
+      metrics:
+        '{"orders":{"fn":"count"},"total":{"fn":"sum","field":"amount"},' +
+        '"top":{"fn":"max","field":"amount"}}',
+      groupBy: 'status,region',
+    });
+    expect(serializeAggregation({ average: avg('amount') })).toEqual({
+      metrics: '{"average":{"fn":"avg","field":"amount"}}',
+      groupBy: undefined,
+    });
+  });
+
+  it('should reject empty, unknown, and conflicting metrics', () => {
+    const invalid = { code: 'INVALID_CONFIGURATION' };
+    expect(() => serializeAggregation({})).toThrow(expect.objectContaining(invalid));
+    const median = { fn: 'median', field: 'amount' } as never;
+    expect(() => serializeAggregation({ total: median })).toThrow(expect.objectContaining(invalid));
+    expect(() => serializeAggregation({ total: sum('') })).toThrow(
+      expect.objectContaining(invalid)
+    );
+    expect(() => serializeAggregation({ status: count() }, ['status'])).toThrow(
+      expect.objectContaining(invalid)
+    );
+  });
+});
+
+describe('readAggregateRows', () => {
+  it('should require an array of row objects', () => {
+    expect(readAggregateRows({ data: [{ orders: 2 }] })).toEqual([{ orders: 2 }]);
+    expect(() => readAggregateRows({ data: [1] })).toThrow(
+      expect.objectContaining({ code: 'INVALID_RESPONSE' })
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { coreErrors } from '../core-errors';
+import type { AggregateFunction, AggregateMetric } from './entities.types';
+
+const AGGREGATE_FUNCTIONS: readonly AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+/** Counts the records of each group. */
+export function count(): AggregateMetric<'count', never> {
+  return { fn: 'count' };
+}
+
+/** Sums a numeric field. */
+export function sum<F extends string>(field: F): AggregateMetric<'sum', F> {
+  return { fn: 'sum', field };
+}
+
+/** Averages a numeric field. */
+export function avg<F extends string>(field: F): AggregateMetric<'avg', F> {
+  return { fn: 'avg', field };
+}
+
+/** Smallest value of a field. */
+export function min<F extends string>(field: F): AggregateMetric<'min', F> {
+  return { fn: 'min', field };
+}
+
+/** Largest value of a field. */
+export function max<F extends string>(field: F): AggregateMetric<'max', F> {
+  return { fn: 'max', field };
+}
+
+/**
+ * Serializes the `metrics` and `groupBy` of an aggregation as query parameters.
+ *
+ * @throws {MitraApiError} With code `INVALID_CONFIGURATION` for an empty or
+ *   invalid metric, or a metric named like a group field
+ * @internal
+ */
+export function serializeAggregation(
+  metrics: Record<string, AggregateMetric>,
+  groupBy: string[] = []
+): { metrics: string; groupBy?: string } {
+  const names = Object.keys(metrics);
+  if (names.length === 0) {
+    throw coreErrors.configuration('aggregate requires at least one metric');
+  }
+  for (const name of names) {
+    const metric: unknown = metrics[name];
+    const { fn, field } = (metric ?? {}) as Partial<AggregateMetric>;
+    if (
+      fn === undefined ||
+      !AGGREGATE_FUNCTIONS.includes(fn) ||
+      (fn !== 'count' && (typeof field !== 'string' || field === ''))
+    ) {
+      throw coreErrors.configuration(
+        `Metric ${name} must be created with count, sum, avg, min, or max`
+      );
+    }
+    if (groupBy.includes(name)) {
+      throw coreErrors.configuration(`Metric ${name} has the same name as a groupBy field`);
+    }
+  }
+  return {
+    metrics: JSON.stringify(metrics),
+    groupBy: groupBy.length > 0 ? groupBy.join(',') : undefined,
+  };
+}
+
+/**
+ * Reads the `data` rows of an aggregate response.
+ * @internal
+ */
+export function readAggregateRows(value: unknown): Array<Record<string, unknown>> {
+  const data =
+    typeof value === 'object' && value !== null ? (value as { data?: unknown }).data : undefined;
+  if (
+    !Array.isArray(data) ||
+    data.some((row: unknown) => typeof row !== 'object' || row === null || Array.isArray(row))
+  ) {
+    throw coreErrors.invalidResponse('Aggregate response has an invalid data field');
+  }
+  return data as Array<Record<string, unknown>>;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MitraApiError } from '../utils/http-client';
+import { runBatch } from './entity-batch';
+
+const identity = async (value: unknown) => value;
+const stored = (records: unknown[]) => ({ results: records.map((record) => ({ record })) });
+
+describe('runBatch', () => {
+  it('should send chunks with bounded concurrency and report records in input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const send = vi.fn(async (records: unknown[]) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return stored(records);
+    });
+    const inputs = Array.from({ length: 10 }, (_, index) => index);
+
+    const options = { chunkSize: 3, concurrency: 2 };
+    const report = await runBatch(inputs, options, identity, send, identity);
+
+    expect(send.mock.calls.map(([records]) => records)).toEqual([
+      [0, 1, 2],
+      [3, 4, 5],
+      [6, 7, 8],
+      [9],
+    ]);
+    expect(maxInFlight).toBe(2);
+    expect(report.records).toEqual(inputs);
+    expect(report.failures).toEqual([]);
+  });
+
+  it('should report failed items, failed chunks, and rejected inputs', async () => {
+    const unavailable = new MitraApiError('Unavailable', 503);
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({
+        results: [
+          { record: 'a' },
+          { error: { message: 'Duplicate email', code: 'CONFLICT', status: 409 } },
+        ],
+      })
+      .mockRejectedValueOnce(unavailable);
+    const prepare = async (value: unknown) => {
+      if (value === 'invalid') throw new MitraApiError('Invalid input', 0, 'SCHEMA_MISMATCH');
+      return value;
+    };
+
+    const report = await runBatch(
+      ['a', 'b', 'invalid', 'c'],
+      { chunkSize: 2, concurrency: 1 },
+      prepare,
+      send,
+      identity
+    );
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(report.records).toEqual(['a']);
+    expect(report.results.map((result) => result.ok)).toEqual([true, false, false, false]);
+    expect(report.failures).toEqual([
+      {
+        index: 1,
+        input: 'b',
+        ok: false,
+        error: expect.objectContaining({ status: 409, code: 'CONFLICT' }),
+      },
+      {
+        index: 2,
+        input: 'invalid',
+        ok: false,
+        error: expect.objectContaining({ code: 'SCHEMA_MISMATCH' }),
+      },
+      { index: 3, input: 'c', ok: false, error: unavailable },
+    ]);
+  });
+
+  it('should fail the chunk on a malformed response and reject invalid options', async () => {
+    const report = await runBatch(['a'], {}, identity, async () => ({ results: [] }), identity);
+
+    expect(report.failures[0].error).toMatchObject({ code: 'INVALID_RESPONSE' });
+    await expect(
+      runBatch([], { chunkSize: 0 }, identity, vi.fn(), identity)
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIGURATION' });
+  });
+});
@@ -0,0 +1,125 @@
+import { coreErrors } from '../core-errors';
+import { MitraApiError, type CallOptions } from '../utils/http-client';
+import type { BatchFailure, BatchItemResult, BatchOptions, BatchReport } from './entities.types';
+
+const DEFAULT_CHUNK_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+type ChunkItem = { record: unknown } | { error: MitraApiError };
+
+/** Checks or transforms one value, throwing `MitraApiError` to fail only that item. */
+type ItemCheck<R> = (value: unknown) => Promise<R>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function expectCount(value: number | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (!Number.isInteger(value) || value < 1) {
+    throw coreErrors.configuration(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Reads a bulk response: one `{ record }` or `{ error }` per sent record, in
+ * the order they were sent.
+ */
+function readChunkItems(value: unknown, size: number): ChunkItem[] {
+  const results = isObject(value) ? value.results : undefined;
+  if (!Array.isArray(results) || results.length !== size) {
+    throw coreErrors.invalidResponse('Bulk response has an invalid results field');
+  }
+  return results.map((item: unknown): ChunkItem => {
+    if (isObject(item) && 'record' in item) return { record: item.record };
+    if (isObject(item) && isObject(item.error) && typeof item.error.message === 'string') {
+      const { message, status, code } = item.error;
+      return {
+        error: new MitraApiError(
+          message,
+          typeof status === 'number' ? status : 400,
+          typeof code === 'string' ? code : undefined,
+          item.error
+        ),
+      };
+    }
+    throw coreErrors.invalidResponse('Bulk response has an invalid result item');
+  });
+}
+
+/**
+ * Sends `inputs` in chunks with bounded concurrency and reports the outcome of
+ * every input. Inputs that fail `prepare` are reported without being sent; a
+ * failed chunk fails all of its items with the request error.
+ *
+ * @throws {MitraApiError} With code `INVALID_CONFIGURATION` for invalid chunk options
+ * @internal
+ */
+export async function runBatch<T>(
+  inputs: unknown[],
+  options: BatchOptions,
+  prepare: ItemCheck<unknown>,
+  send: (records: unknown[], options: CallOptions) => Promise<unknown>,
+  checkRecord: ItemCheck<T>
+): Promise<BatchReport<T>> {
+  const chunkSize = expectCount(options.chunkSize, 'chunkSize', DEFAULT_CHUNK_SIZE);
+  const concurrency = expectCount(options.concurrency, 'concurrency', DEFAULT_CONCURRENCY);
+  const { signal, timeoutMs, retry } = options;
+  const results: BatchItemResult<T>[] = new Array(inputs.length);
+
+  const fail = (index: number, error: unknown) => {
+    if (!(error instanceof MitraApiError)) throw error;
+    results[index] = { index, input: inputs[index], ok: false, error };
+  };
+
+  const ready: Array<{ index: number; value: unknown }> = [];
+  await Promise.all(
+    inputs.map(async (input, index) => {
+      try {
+        ready.push({ index, value: await prepare(input) });
+      } catch (error) {
+        fail(index, error);
+      }
+    })
+  );
+  ready.sort((a, b) => a.index - b.index);
+
+  const settle = async (index: number, item: ChunkItem) => {
+    if ('error' in item) return fail(index, item.error);
+    try {
+      const record = await checkRecord(item.record);
+      results[index] = { index, input: inputs[index], ok: true, record };
+    } catch (error) {
+      fail(index, error);
+    }
+  };
+
+  const chunks: Array<typeof ready> = [];
+  for (let start = 0; start < ready.length; start += chunkSize) {
+    chunks.push(ready.slice(start, start + chunkSize));
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      let items: ChunkItem[];
+      try {
+        const response = await send(chunk.map(({ value }) => value), { signal, timeoutMs, retry });
+        items = readChunkItems(response, chunk.length);
+      } catch (error) {
+        if (!(error instanceof MitraApiError)) throw error;
+        items = chunk.map(() => ({ error }));
+      }
+      await Promise.all(items.map((item, offset) => settle(chunk[offset].index, item)));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return {
+    results,
+    records: results.flatMap((result) => (result.ok ? [result.record] : [])),
+    failures: results.filter((result): result is BatchFailure => !result.ok),
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { expandRelations, type RelatedRecordsReader } from './entity-expand';
+
+const relations = {
+  customer: { type: 'one', table: 'Customer', field: 'customerId' },
+  items: { type: 'many', table: 'OrderItem', field: 'orderId' },
+} as const;
+
+describe('expandRelations', () => {
+  it('should nest one and many relations with one lookup per relation', async () => {
+    const read = vi.fn<RelatedRecordsReader>(async (table) =>
+      table === 'Customer'
+        ? [{ id: 7, name: 'Ada' }]
+        : [
+            { id: 'i1', orderId: 1 },
+            { id: 'i2', orderId: 1 },
+          ]
+    );
+    const orders = [
+      { id: 1, customerId: 7 },
+      { id: 2, customerId: 7 },
+      { id: 3, customerId: null },
+    ];
+
+    await expandRelations(orders, ['customer', 'items'], relations, 'Order', read, {});
+
+    expect(orders).toEqual([
+      {
+        id: 1,
+        customerId: 7,
+        customer: { id: 7, name: 'Ada' },
+        items: [
+          { id: 'i1', orderId: 1 },
+          { id: 'i2', orderId: 1 },
+        ],
+      },
+      { id: 2, customerId: 7, customer: { id: 7, name: 'Ada' }, items: [] },
+      { id: 3, customerId: null, customer: null, items: [] },
+    ]);
+    expect(read.mock.calls.map(([table, filter]) => [table, filter])).toEqual([
+      ['Customer', { id: { $in: [7] } }],
+      ['OrderItem', { orderId: { $in: [1, 2, 3] } }],
+    ]);
+  });
+
+  it('should keep relations the server joined and chunk large lookups', async () => {
+    const read = vi.fn<RelatedRecordsReader>().mockResolvedValue([]);
+    const joined = [{ id: 1, customerId: 7, customer: { id: 7 } }];
+    await expandRelations(joined, ['customer'], {}, 'Order', read, {});
+    expect(read).not.toHaveBeenCalled();
+
+    const orders = Array.from({ length: 150 }, (_, index) => ({ id: index }));
+    await expandRelations(orders, ['items'], relations, 'Order', read, {});
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a relation that is neither joined nor defined', async () => {
+    await expect(
+      expandRelations([{ id: 1 }], ['owner'], relations, 'Order', vi.fn(), {})
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIGURATION' });
+  });
+});
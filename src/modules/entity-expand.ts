@@ -0,0 +1,149 @@
+import { coreErrors } from '../core-errors';
+import type { CallOptions } from '../utils/http-client';
+import type { EntityFilter, EntityRelation } from './entities.types';
+
+/** IDs per `$in` lookup, keeping request URLs short. */
+const LOOKUP_CHUNK_SIZE = 100;
+
+type RecordObject = Record<string, unknown>;
+
+/** Read options with the relations to nest. @internal */
+export type WithExpand<O> = O & { expand?: string[] };
+
+/**
+ * Reads every record of `table` matching `filter`.
+ * @internal
+ */
+export type RelatedRecordsReader = (
+  table: string,
+  filter: EntityFilter,
+  options: CallOptions
+) => Promise<unknown[]>;
+
+function isObject(value: unknown): value is RecordObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toKey(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/** Whether the server already nested the relation into the record. */
+function isJoined(record: RecordObject, name: string, relation: EntityRelation | undefined) {
+  const value = record[name];
+  if (relation?.type === 'many' || (relation === undefined && Array.isArray(value))) {
+    return Array.isArray(value);
+  }
+  return value === null || isObject(value);
+}
+
+async function readByValues(
+  read: RelatedRecordsReader,
+  table: string,
+  field: string,
+  values: unknown[],
+  options: CallOptions
+): Promise<RecordObject[]> {
+  const chunks: unknown[][] = [];
+  for (let start = 0; start < values.length; start += LOOKUP_CHUNK_SIZE) {
+    chunks.push(values.slice(start, start + LOOKUP_CHUNK_SIZE));
+  }
+  const pages = await Promise.all(
+    chunks.map((chunk) => read(table, { [field]: { $in: chunk } } as EntityFilter, options))
+  );
+  return pages.flat().filter(isObject);
+}
+
+/**
+ * Nests the related records named in `expand` into `records`, in place.
+ *
+ * Relations the server already joined are kept. The others are read with one
+ * `$in` lookup per relation and chunk of IDs, and need a definition in
+ * `relations`.
+ *
+ * @throws {MitraApiError} With code `INVALID_CONFIGURATION` for a relation
+ *   the server did not join and the table does not define
+ * @internal
+ */
+export async function expandRelations(
+  records: unknown[],
+  expand: string[],
+  relations: Record<string, EntityRelation>,
+  tableName: string,
+  read: RelatedRecordsReader,
+  options: CallOptions
+): Promise<void> {
+  const objects = records.filter(isObject);
+  await Promise.all(
+    expand.map(async (name) => {
+      const relation = Object.hasOwn(relations, name) ? relations[name] : undefined;
+      const pending = objects.filter((record) => !isJoined(record, name, relation));
+      if (pending.length === 0) return;
+      if (!relation) {
+        throw coreErrors.configuration(
+          `Relation ${name} of table ${tableName} is not defined in getTable relations`
+        );
+      }
+
+      const { type, table, field } = relation;
+      const ownValue = (record: RecordObject) => (type === 'one' ? record[field] : record.id);
+      const ownKey = (record: RecordObject) => toKey(ownValue(record));
+      // Lookups send the IDs as stored; matching compares them as strings
+      const values = new Map<string, unknown>();
+      pending.forEach((record) => {
+        const key = ownKey(record);
+        if (key !== undefined) values.set(key, ownValue(record));
+      });
+      const lookupField = type === 'one' ? 'id' : field;
+      const related = values.size
+        ? await readByValues(read, table, lookupField, [...values.values()], options)
+        : [];
+
+      if (type === 'one') {
+        const byId = new Map(related.map((record) => [toKey(record.id), record]));
+        pending.forEach((record) => {
+          record[name] = byId.get(ownKey(record)) ?? null;
+        });
+        return;
+      }
+      const byOwner = new Map<string | undefined, RecordObject[]>();
+      related.forEach((record) => {
+        const owner = toKey(record[field]);
+        byOwner.set(owner, [...(byOwner.get(owner) ?? []), record]);
+      });
+      pending.forEach((record) => {
+        record[name] = byOwner.get(ownKey(record)) ?? [];
+      });
+    })
+  );
+}
+
+/**
+ * Runs `check` on the records without the relations named in `expand`, then
+ * puts the relations back. Row validators that strip unknown keys would
+ * otherwise drop relations the server already joined.
+ * @internal
+ */
+export async function checkWithoutRelations<R>(
+  records: R[],
+  expand: string[] | undefined,
+  check: (records: R[]) => Promise<R[]>
+): Promise<R[]> {
+  if (!expand?.length) return check(records);
+  const joined = records.map((record) => {
+    if (!isObject(record)) return undefined;
+    const names = expand.filter((name) => Object.hasOwn(record, name));
+    return Object.fromEntries(names.map((name) => [name, record[name]]));
+  });
+  const bases = records.map((record, index) => {
+    const relations = joined[index];
+    if (!isObject(record) || !relations) return record;
+    const base: RecordObject = { ...record };
+    Object.keys(relations).forEach((name) => delete base[name]);
+    return base as R;
+  });
+  const checked = await check(bases);
+  return checked.map((record, index) =>
+    isObject(record) ? ({ ...record, ...joined[index] } as R) : record
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { serializeFilter } from './entity-filter';
+import { MitraApiError } from '../utils/http-client';
+import type { EntityFilter } from './entities.types';
+
+type Order = { amount: number; status: string; customer: string | null; createdAt: string };
+
+describe('serializeFilter', () => {
+  it('should serialize equality, operators, and logical groups', () => {
+    const filter: EntityFilter<Order> = {
+      status: 'paid',
+      amount: { $gte: 10, $lt: 100 },
+      $or: [{ customer: { $ilike: '%acme%' } }, { customer: { $null: true } }],
+      $and: [{ createdAt: { $gte: '2026-01-01' } }, { status: { $nin: ['void'] } }],
+    };
+
+    expect(JSON.parse(serializeFilter(filter))).toEqual({
+      status: 'paid',
+      amount: { $gte: 10, $lt: 100 },
+      $or: [{ customer: { $ilike: '%acme%' } }, { customer: { $null: true } }],
+      $and: [{ createdAt: { $gte: '2026-01-01' } }, { status: { $nin: ['void'] } }],
+    });
+  });
+
+  it('should leave out undefined values like JSON.stringify', () => {
+    const filter = { status: 'paid', customer: undefined, $or: [{ amount: 1, status: undefined }] };
+
+    expect(serializeFilter(filter)).toBe(serializeFilter({ status: 'paid', $or: [{ amount: 1 }] }));
+    expect(serializeFilter({ a: 1, b: undefined })).toBe(serializeFilter({ a: 1 }));
+  });
+
+  it('should send dates as ISO 8601 strings', () => {
+    const filter: EntityFilter = { createdAt: { $lt: new Date('2026-01-01T00:00:00Z') } };
+
+    expect(serializeFilter(filter)).toBe('{"createdAt":{"$lt":"2026-01-01T00:00:00.000Z"}}');
+  });
+
+  it.each([
+    [
+      { amount: { $between: [1, 2] } },
+      'Invalid filter at amount.$between: unsupported operator $between',
+    ],
+    [{ $not: { status: 'paid' } }, 'Invalid filter at $not: unsupported operator $not'],
+    [
+      { status: { $in: 'paid' } },
+      'Invalid filter at status.$in: $in expects an array of scalar values',
+    ],
+    [{ amount: { $gt: { value: 1 } } }, 'Invalid filter at amount.$gt: $gt expects a scalar value'],
+    [{ customer: { $like: 10 } }, 'Invalid filter at customer.$like: $like expects a string'],
+    [{ customer: { $null: 'yes' } }, 'Invalid filter at customer.$null: $null expects a boolean'],
+    [{ $or: [] }, 'Invalid filter at $or: $or expects a non-empty array of filters'],
+    [{ $or: [{ status: 'paid' }, 'x'] }, 'Invalid filter at $or[1]: expected an object'],
+    [{ status: { $eq: undefined } }, 'Invalid filter at status.$eq: $eq expects a scalar value'],
+    [[], 'Invalid filter: expected an object'],
+  ])('should reject %j', (filter, message) => {
+    expect(() => serializeFilter(filter as EntityFilter)).toThrow(message);
+  });
+
+  it('should report the offending path in a MitraApiError', () => {
+    try {
+      serializeFilter({ $or: [{ amount: { $regex: '^1' } }] } as EntityFilter);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MitraApiError);
+      expect(error).toMatchObject({
+        status: 0,
+        code: 'INVALID_FILTER',
+        details: { path: '$or[0].amount.$regex' },
+      });
+    }
+  });
+});
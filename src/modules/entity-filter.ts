@@ -0,0 +1,91 @@
+import { MitraApiError } from '../utils/http-client';
+import type { EntityFilter } from './entities.types';
+
+const COMPARISON_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte']);
+const LIST_OPERATORS = new Set(['$in', '$nin']);
+const PATTERN_OPERATORS = new Set(['$like', '$ilike']);
+const LOGICAL_OPERATORS = new Set(['$or', '$and']);
+
+function invalidFilter(message: string, path: string): MitraApiError {
+  return new MitraApiError(
+    path ? `Invalid filter at ${path}: ${message}` : `Invalid filter: ${message}`,
+    0,
+    'INVALID_FILTER',
+    { path }
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function isScalar(value: unknown): boolean {
+  return (
+    value === null ||
+    value instanceof Date ||
+    ['string', 'number', 'boolean'].includes(typeof value)
+  );
+}
+
+function validateOperators(operators: Record<string, unknown>, path: string): void {
+  for (const [operator, operand] of Object.entries(operators)) {
+    const operatorPath = `${path}.${operator}`;
+    if (COMPARISON_OPERATORS.has(operator)) {
+      if (!isScalar(operand)) {
+        throw invalidFilter(`${operator} expects a scalar value`, operatorPath);
+      }
+    } else if (LIST_OPERATORS.has(operator)) {
+      if (!Array.isArray(operand) || !operand.every(isScalar)) {
+        throw invalidFilter(`${operator} expects an array of scalar values`, operatorPath);
+      }
+    } else if (PATTERN_OPERATORS.has(operator)) {
+      if (typeof operand !== 'string') {
+        throw invalidFilter(`${operator} expects a string`, operatorPath);
+      }
+    } else if (operator === '$null') {
+      if (typeof operand !== 'boolean') {
+        throw invalidFilter('$null expects a boolean', operatorPath);
+      }
+    } else {
+      throw invalidFilter(`unsupported operator ${operator}`, operatorPath);
+    }
+  }
+}
+
+function validateGroup(filter: unknown, path: string): void {
+  if (!isPlainObject(filter)) throw invalidFilter('expected an object', path);
+
+  for (const [key, value] of Object.entries(filter)) {
+    // `JSON.stringify` drops undefined values, so optional conditions can be left unset
+    if (value === undefined) continue;
+    const keyPath = path ? `${path}.${key}` : key;
+    if (LOGICAL_OPERATORS.has(key)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw invalidFilter(`${key} expects a non-empty array of filters`, keyPath);
+      }
+      value.forEach((entry, index) => validateGroup(entry, `${keyPath}[${index}]`));
+    } else if (key.startsWith('$')) {
+      throw invalidFilter(`unsupported operator ${key}`, keyPath);
+    } else if (isPlainObject(value) && Object.keys(value).some((name) => name.startsWith('$'))) {
+      validateOperators(value, keyPath);
+    }
+  }
+}
+
+/**
+ * Validates a filter and serializes it for the `q` query parameter of the
+ * records endpoint.
+ *
+ * @throws {MitraApiError} With code `INVALID_FILTER` and the offending
+ *   `details.path` when the filter uses an unsupported operator or operand
+ * @internal
+ */
+export function serializeFilter<T>(filter: EntityFilter<T>): string {
+  validateGroup(filter, '');
+  return JSON.stringify(filter);
+}
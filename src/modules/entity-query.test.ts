@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EntityQuery, type QueryTarget } from './entity-query';
+
+type Task = { id: string; title: string; status: string; priority: number; due: string | null };
+
+function createTarget() {
+  const page = { data: [{ id: '1', title: 'First' }], total: 1, hasMore: false, nextSkip: null };
+  const target = {
+    listPage: vi.fn().mockResolvedValue(page),
+    paginate: vi.fn(async function* () {
+      yield page;
+    }),
+  };
+  return { target, query: new EntityQuery<Task>(target as unknown as QueryTarget<Task>) };
+}
+
+describe('EntityQuery', () => {
+  it('should compile conditions, order, fields, and paging into listPage options', async () => {
+    const { target, query } = createTarget();
+    const controller = new AbortController();
+
+    const tasks = await query
+      .where('status', '=', 'open')
+      .where('priority', 'in', [1, 2])
+      .where('due', '!=', null)
+      .orderBy('priority', 'desc')
+      .select(['id', 'title'])
+      .limit(20)
+      .skip(40)
+      .fetch({ signal: controller.signal });
+
+    expect(tasks).toEqual([{ id: '1', title: 'First' }]);
+    expect(target.listPage).toHaveBeenCalledWith({
+      filter: {
+        $and: [
+          { status: { $eq: 'open' } },
+          { priority: { $in: [1, 2] } },
+          { due: { $null: false } },
+        ],
+      },
+      sort: '-priority',
+      fields: ['id', 'title'],
+      limit: 20,
+      skip: 40,
+      signal: controller.signal,
+    });
+  });
+
+  it('should keep a single condition unwrapped and accept filter objects', () => {
+    const { query } = createTarget();
+
+    expect(query.where('title', 'ilike', '%report%').toOptions().filter).toEqual({
+      title: { $ilike: '%report%' },
+    });
+    expect(query.where({ priority: { $gte: 2 } }).orderBy('title').toOptions()).toMatchObject({
+      filter: { priority: { $gte: 2 } },
+      sort: 'title',
+    });
+  });
+
+  it('should pass expanded relations to pages and type the nested records', async () => {
+    const { target } = createTarget();
+    const query = new EntityQuery<Task, Task, { project: { name: string } | null }>(
+      target as unknown as QueryTarget<Task>
+    );
+
+    const tasks: Array<{ id: string; project: { name: string } | null }> = await query
+      .select(['id'])
+      .expand(['project'])
+      .fetch();
+    for await (const page of query.expand(['project']).paginate(50)) void page;
+
+    expect(tasks).toHaveLength(1);
+    expect(target.listPage).toHaveBeenCalledWith(
+      expect.objectContaining({ fields: ['id'], expand: ['project'] })
+    );
+    expect(target.paginate).toHaveBeenCalledWith(
+      expect.objectContaining({ expand: ['project'], pageSize: 50 })
+    );
+    // @ts-expect-error unknown relation
+    query.expand(['owner']);
+  });
+
+  it('should not change the query it was derived from', () => {
+    const { query } = createTarget();
+    const open = query.where('status', '=', 'open');
+
+    open.limit(5).orderBy('title');
+
+    expect(open.toOptions()).toEqual({ filter: { status: { $eq: 'open' } } });
+    expect(query.toOptions()).toEqual({});
+  });
+
+  it('should return the first record and paginate without the limit', async () => {
+    const { target, query } = createTarget();
+    const recent = query.orderBy('due', 'desc').limit(50);
+
+    await expect(recent.first()).resolves.toEqual({ id: '1', title: 'First' });
+    expect(target.listPage).toHaveBeenCalledWith(expect.objectContaining({ limit: 1 }));
+
+    for await (const page of recent.paginate(25)) expect(page.total).toBe(1);
+    expect(target.paginate).toHaveBeenCalledWith({ sort: '-due', pageSize: 25 });
+  });
+
+  it('should reject invalid operators and counts', () => {
+    const { query } = createTarget();
+
+    // @ts-expect-error unsupported operator
+    expect(() => query.where('status', '~', 'open')).toThrow(
+      expect.objectContaining({ code: 'INVALID_FILTER', details: { path: 'status' } })
+    );
+    expect(() => query.limit(-1)).toThrow(
+      expect.objectContaining({ code: 'INVALID_CONFIGURATION' })
+    );
+    expect(() => query.skip(1.5)).toThrow('skip must be a non-negative integer');
+  });
+
+  it('should type-check field names and values against the table type', () => {
+    const { query } = createTarget();
+
+    // @ts-expect-error unknown field
+    query.where('owner', '=', 'me');
+    // @ts-expect-error value of the wrong type
+    query.where('priority', '>', 'high');
+    // @ts-expect-error `in` expects an array
+    query.where('status', 'in', 'open');
+    // @ts-expect-error unknown field
+    query.select(['id', 'owner']);
+  });
+});
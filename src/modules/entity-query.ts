@@ -0,0 +1,224 @@
+import { coreErrors } from '../core-errors';
+import { MitraApiError, type CallOptions } from '../utils/http-client';
+import type {
+  EntityFilter,
+  EntityPage,
+  EntityPageOptions,
+  EntityPaginateOptions,
+  Expanded,
+  FilterOperators,
+} from './entities.types';
+import type { WithExpand } from './entity-expand';
+
+/** Comparison operators accepted by `EntityQuery.where`. */
+export type WhereOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'in'
+  | 'not in'
+  | 'like'
+  | 'ilike';
+
+/** Value expected by a `where` operator for a field of type `V`. */
+export type WhereValue<V, O extends WhereOperator> = O extends 'in' | 'not in'
+  ? V[]
+  : O extends 'like' | 'ilike'
+    ? string
+    : V | null;
+
+/** Sort direction accepted by `EntityQuery.orderBy`. */
+export type SortDirection = 'asc' | 'desc';
+
+const FILTER_OPERATORS: Record<WhereOperator, keyof FilterOperators> = {
+  '=': '$eq',
+  '!=': '$ne',
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+  in: '$in',
+  'not in': '$nin',
+  like: '$like',
+  ilike: '$ilike',
+};
+
+/** Table operations a query compiles down to. @internal */
+export interface QueryTarget<T> {
+  listPage(options?: WithExpand<EntityPageOptions<T>>): Promise<EntityPage<T>>;
+  paginate(
+    options?: WithExpand<EntityPaginateOptions<T>>
+  ): AsyncGenerator<EntityPage<T>, void, undefined>;
+}
+
+interface QueryState<T> {
+  conditions: EntityFilter<T>[];
+  sort?: string;
+  fields?: string[];
+  limit?: number;
+  skip?: number;
+  expand?: string[];
+}
+
+function toCondition(field: string, operator: WhereOperator, value: unknown): EntityFilter {
+  if (!Object.hasOwn(FILTER_OPERATORS, operator)) {
+    throw new MitraApiError(
+      `Invalid filter at ${field}: unsupported operator ${String(operator)}`,
+      0,
+      'INVALID_FILTER',
+      { path: field }
+    );
+  }
+  if (value === null && (operator === '=' || operator === '!=')) {
+    return { [field]: { $null: operator === '=' } };
+  }
+  return { [field]: { [FILTER_OPERATORS[operator]]: value } };
+}
+
+function expectCount(value: number, name: string): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw coreErrors.configuration(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * Immutable query over an entity table. Every method returns a new query, so
+ * a base query can be shared and refined. Conditions added with `where` are
+ * combined with AND.
+ *
+ * `T` is the record type of the table and `R` the type of the returned
+ * records, narrowed by `select` and widened by `expand`. `Rel` maps the
+ * relation names of the table to their nested types.
+ *
+ * @example
+ * ```typescript
+ * const tasks = await mitra.entities
+ *   .getTable<Task>('Task')
+ *   .query()
+ *   .where('status', '=', 'open')
+ *   .where('priority', 'in', ['high', 'urgent'])
+ *   .orderBy('created_at', 'desc')
+ *   .select(['id', 'title'])
+ *   .limit(20)
+ *   .fetch();
+ * ```
+ */
+export class EntityQuery<T, R = T, Rel = Record<string, unknown>> {
+  /** @internal */
+  constructor(
+    private readonly target: QueryTarget<T>,
+    private readonly state: QueryState<T> = { conditions: [] }
+  ) {}
+
+  /** Adds a condition on one field. `= null` and `!= null` match null and non-null values. */
+  where<K extends keyof T & string, O extends WhereOperator>(
+    field: K,
+    operator: O,
+    value: WhereValue<T[K], O>
+  ): EntityQuery<T, R, Rel>;
+  /** Adds a filter written in the entity filter language. */
+  where(filter: EntityFilter<T>): EntityQuery<T, R, Rel>;
+  where(
+    fieldOrFilter: string | EntityFilter<T>,
+    operator?: WhereOperator,
+    value?: unknown
+  ): EntityQuery<T, R, Rel> {
+    const condition =
+      typeof fieldOrFilter === 'string'
+        ? (toCondition(fieldOrFilter, operator as WhereOperator, value) as EntityFilter<T>)
+        : fieldOrFilter;
+    return this.with({ conditions: [...this.state.conditions, condition] });
+  }
+
+  /** Sorts by one field, replacing any earlier order. */
+  orderBy(field: keyof T & string, direction: SortDirection = 'asc'): EntityQuery<T, R, Rel> {
+    return this.with({ sort: direction === 'desc' ? `-${field}` : field });
+  }
+
+  /**
+   * Returns only the given fields, narrowing the record type. Include the
+   * foreign-key fields of expanded `one` relations.
+   */
+  select<K extends keyof T & string>(
+    fields: K[]
+  ): EntityQuery<T, Pick<T, K> & Omit<R, keyof T>, Rel> {
+    return new EntityQuery<T, Pick<T, K> & Omit<R, keyof T>, Rel>(this.target, {
+      ...this.state,
+      fields: [...fields],
+    });
+  }
+
+  /** Nests the related records of the given relations into each record. */
+  expand<E extends keyof Rel & string>(relations: E[]): EntityQuery<T, Expanded<R, Rel, E>, Rel> {
+    return new EntityQuery<T, Expanded<R, Rel, E>, Rel>(this.target, {
+      ...this.state,
+      expand: [...new Set([...(this.state.expand ?? []), ...relations])],
+    });
+  }
+
+  /** Returns at most `count` records. */
+  limit(count: number): EntityQuery<T, R, Rel> {
+    return this.with({ limit: expectCount(count, 'limit') });
+  }
+
+  /** Skips the first `count` matching records. */
+  skip(count: number): EntityQuery<T, R, Rel> {
+    return this.with({ skip: expectCount(count, 'skip') });
+  }
+
+  /** Compiles the query into `listPage` options. */
+  toOptions(): WithExpand<EntityPageOptions<T>> {
+    const { conditions, sort, fields, limit, skip, expand } = this.state;
+    const filter = conditions.length <= 1 ? conditions[0] : { $and: conditions };
+    return { filter, sort, fields, limit, skip, expand } as EntityPageOptions<T>;
+  }
+
+  /** Runs the query and returns the matching records. */
+  async fetch(options?: CallOptions): Promise<R[]> {
+    return (await this.fetchPage(options)).data;
+  }
+
+  /** Runs the query and returns the records with the paging metadata. */
+  async fetchPage(options?: CallOptions): Promise<EntityPage<R>> {
+    const page = await this.target.listPage({ ...this.toOptions(), ...options });
+    return page as unknown as EntityPage<R>;
+  }
+
+  /** Returns the first matching record, or null. */
+  async first(options?: CallOptions): Promise<R | null> {
+    return (await this.limit(1).fetch(options))[0] ?? null;
+  }
+
+  /**
+   * Walks every matching record page by page, ignoring `limit`.
+   *
+   * @example
+   * ```typescript
+   * for await (const { data } of query.paginate(500)) await exportRows(data);
+   * ```
+   */
+  paginate(
+    pageSize?: number,
+    options?: CallOptions
+  ): AsyncGenerator<EntityPage<R>, void, undefined> {
+    const { filter, sort, fields, skip, expand } = this.toOptions();
+    const pages = this.target.paginate({
+      filter,
+      sort,
+      fields,
+      skip,
+      expand,
+      pageSize,
+      ...options,
+    });
+    return pages as unknown as AsyncGenerator<EntityPage<R>, void, undefined>;
+  }
+
+  private with(changes: Partial<QueryState<T>>): EntityQuery<T, R, Rel> {
+    return new EntityQuery<T, R, Rel>(this.target, { ...this.state, ...changes });
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+import { validateRecord, validateRecords } from './entity-schema';
+
+type Task = { id: number; title: string };
+
+const taskSchema: StandardSchemaV1<unknown, Task> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate(value) {
+      const record = value as Record<string, unknown>;
+      const issues: StandardSchemaV1.Issue[] = [];
+      if (typeof record.id !== 'number') issues.push({ message: 'Expected number', path: ['id'] });
+      if (typeof record.title !== 'string') {
+        issues.push({ message: 'Expected string', path: [{ key: 'title' }] });
+      }
+      if (issues.length > 0) return { issues };
+      return { value: { id: record.id, title: record.title } as Task };
+    },
+  },
+};
+
+describe('entity schema validation', () => {
+  it('should return the schema output', async () => {
+    await expect(
+      validateRecord(taskSchema, { id: 1, title: 'First', extra: true }, 'Task', 'response')
+    ).resolves.toEqual({ id: 1, title: 'First' });
+  });
+
+  it('should report every issue with its path', async () => {
+    await expect(validateRecord(taskSchema, { id: '1' }, 'Task', 'input')).rejects.toMatchObject({
+      status: 0,
+      code: 'SCHEMA_MISMATCH',
+      message: 'Input for table Task does not match its schema: Expected number at id',
+      details: {
+        table: 'Task',
+        source: 'input',
+        issues: [
+          { path: ['id'], message: 'Expected number' },
+          { path: ['title'], message: 'Expected string' },
+        ],
+      },
+    });
+  });
+
+  it('should prefix list issues with the record index', async () => {
+    const records = [{ id: 1, title: 'First' }, { id: 2 }];
+
+    await expect(validateRecords(taskSchema, records, 'Task')).rejects.toMatchObject({
+      message: 'Response from table Task does not match its schema: Expected string at 1.title',
+      details: { source: 'response', issues: [{ path: [1, 'title'], message: 'Expected string' }] },
+    });
+  });
+
+  it('should await asynchronous validators', async () => {
+    const asyncSchema: StandardSchemaV1<unknown, Task> = {
+      '~standard': {
+        ...taskSchema['~standard'],
+        validate: async () => ({ issues: [{ message: 'Nope' }] }),
+      },
+    };
+
+    await expect(validateRecord(asyncSchema, {}, 'Task', 'response')).rejects.toThrow(
+      'Response from table Task does not match its schema: Nope'
+    );
+  });
+});
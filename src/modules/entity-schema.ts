@@ -0,0 +1,98 @@
+import { MitraApiError } from '../utils/http-client';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+
+/** One validation failure reported in `SCHEMA_MISMATCH` details. */
+export interface SchemaIssue {
+  /** Location of the value, starting with the record index for lists. */
+  path: PropertyKey[];
+  /** Message from the schema library. */
+  message: string;
+}
+
+/** Whether the mismatch was found in data sent to or received from the API. */
+export type SchemaSource = 'input' | 'response';
+
+/** What the validated data belongs to, named in the message and details. @internal */
+export type SchemaSubject = 'table' | 'query';
+
+function issuePath(issue: StandardSchemaV1.Issue, prefix: PropertyKey[]): PropertyKey[] {
+  const path = (issue.path ?? []).map((segment) =>
+    typeof segment === 'object' && segment !== null ? segment.key : segment
+  );
+  return [...prefix, ...path];
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map(String).join('.');
+}
+
+async function collect<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  value: unknown,
+  prefix: PropertyKey[],
+  issues: SchemaIssue[]
+): Promise<T | undefined> {
+  const result = await schema['~standard'].validate(value);
+  if (!result.issues) return result.value;
+  issues.push(
+    ...result.issues.map((issue) => ({ path: issuePath(issue, prefix), message: issue.message }))
+  );
+  return undefined;
+}
+
+function mismatch(
+  name: string,
+  source: SchemaSource,
+  issues: SchemaIssue[],
+  subject: SchemaSubject
+): MitraApiError {
+  const [first] = issues;
+  const location = first.path.length > 0 ? ` at ${formatPath(first.path)}` : '';
+  const direction = source === 'input' ? 'Input for' : 'Response from';
+  return new MitraApiError(
+    `${direction} ${subject} ${name} does not match its schema: ${first.message}${location}`,
+    0,
+    'SCHEMA_MISMATCH',
+    { [subject]: name, source, issues }
+  );
+}
+
+/**
+ * Validates one value against a Standard Schema and returns the schema output.
+ *
+ * @throws {MitraApiError} With code `SCHEMA_MISMATCH` and every issue in `details.issues`
+ * @internal
+ */
+export async function validateRecord<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  value: unknown,
+  name: string,
+  source: SchemaSource,
+  subject: SchemaSubject = 'table'
+): Promise<T> {
+  const issues: SchemaIssue[] = [];
+  const output = await collect(schema, value, [], issues);
+  if (issues.length > 0) throw mismatch(name, source, issues, subject);
+  return output as T;
+}
+
+/**
+ * Validates every record or row of a list, reporting issues of all records
+ * with the record index as the first path segment.
+ *
+ * @throws {MitraApiError} With code `SCHEMA_MISMATCH`
+ * @internal
+ */
+export async function validateRecords<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  values: unknown[],
+  name: string,
+  subject: SchemaSubject = 'table'
+): Promise<T[]> {
+  const issues: SchemaIssue[] = [];
+  const outputs = await Promise.all(
+    values.map((value, index) => collect(schema, value, [index], issues))
+  );
+  if (issues.length > 0) throw mismatch(name, 'response', issues, subject);
+  return outputs as T[];
+}
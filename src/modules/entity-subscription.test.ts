@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createByteStream } from '../test-utils';
+import { MitraApiError } from '../utils/http-client';
+import { subscribeToChanges, type ChangeSource } from './entity-subscription';
+
+const change = (event: string, data: unknown, id?: string) =>
+  `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/** Stream that stays open until `signal` aborts. */
+function openStream(signal: AbortSignal, ...chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      signal.addEventListener('abort', () => controller.error(signal.reason));
+    },
+  });
+}
+
+function createSource(open: ChangeSource<unknown>['open']) {
+  let refresh = () => undefined as void;
+  const source = {
+    open: vi.fn(open),
+    checkRecord: vi.fn(async (value: unknown) => value),
+    onChange: vi.fn(),
+    onTokenRefreshed: vi.fn((callback: () => void) => {
+      refresh = callback;
+      return vi.fn();
+    }),
+  };
+  return { source, refresh: () => refresh() };
+}
+
+describe('subscribeToChanges', () => {
+  it('should deliver changes and resume after the last event ID', async () => {
+    const { source } = createSource(async (cursor, signal) =>
+      cursor === undefined
+        ? createByteStream([
+            change('insert', { record: { id: '1' } }, 'c1'),
+            change('update', { record: { id: '1', done: true } }, 'c2'),
+          ])
+        : openStream(signal, change('delete', { id: 1 }, 'c3'))
+    );
+    const callback = vi.fn();
+
+    const unsubscribe = subscribeToChanges(source, callback, { reconnectDelayMs: 0 });
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(3));
+    unsubscribe();
+
+    expect(callback.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'insert', record: { id: '1' } },
+      { type: 'update', record: { id: '1', done: true } },
+      { type: 'delete', id: '1' },
+    ]);
+    expect(source.open.mock.calls.map(([cursor]) => cursor)).toEqual([undefined, 'c2']);
+    expect(source.onChange).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report invalid events and keep the subscription open', async () => {
+    const { source } = createSource(async (_cursor, signal) =>
+      openStream(
+        signal,
+        'event: insert\ndata: not json\n\n',
+        change('update', { id: '1' }),
+        ': ping\n\n',
+        change('delete', { id: '2' })
+      )
+    );
+    source.checkRecord.mockRejectedValueOnce(new MitraApiError('Invalid', 0, 'SCHEMA_MISMATCH'));
+    const callback = vi.fn();
+    const onError = vi.fn();
+
+    const unsubscribe = subscribeToChanges(source, callback, { onError });
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledWith({ type: 'delete', id: '2' }));
+    unsubscribe();
+
+    expect(callback).toHaveBeenCalledOnce();
+    expect(onError.mock.calls.map(([error]) => error.code)).toEqual([
+      'INVALID_RESPONSE',
+      'INVALID_RESPONSE',
+    ]);
+  });
+
+  it('should reconnect right away with a refreshed token', async () => {
+    const { source, refresh } = createSource(async (_cursor, signal) => openStream(signal));
+
+    const unsubscribe = subscribeToChanges(source, vi.fn(), { reconnectDelayMs: 60_000 });
+    await vi.waitFor(() => expect(source.open).toHaveBeenCalledOnce());
+    refresh();
+    await vi.waitFor(() => expect(source.open).toHaveBeenCalledTimes(2));
+
+    const unsubscribeRefresh = source.onTokenRefreshed.mock.results[0].value;
+    unsubscribe();
+    expect(source.open.mock.calls[0][1].aborted).toBe(true);
+    expect(source.open.mock.calls[1][1].aborted).toBe(true);
+    expect(unsubscribeRefresh).toHaveBeenCalledOnce();
+  });
+
+  it('should back off between failed connects and resync when no cursor was received', async () => {
+    const { source } = createSource(async (_cursor, signal) => openStream(signal));
+    source.open
+      .mockRejectedValueOnce(new MitraApiError('Unavailable', 503))
+      .mockRejectedValueOnce(new MitraApiError('Network request failed', 0, 'NETWORK_ERROR'))
+      .mockResolvedValueOnce(createByteStream([]));
+    const callback = vi.fn();
+    const controller = new AbortController();
+
+    subscribeToChanges(source, callback, {
+      signal: controller.signal,
+      reconnectDelayMs: 5,
+      maxReconnectDelayMs: 8,
+    });
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledWith({ type: 'resync' }));
+    controller.abort();
+
+    expect(source.open).toHaveBeenCalledTimes(4);
+    expect(source.open.mock.calls[3][1].aborted).toBe(true);
+  });
+
+  it('should stop when the server rejects the subscription', async () => {
+    const { source } = createSource(async () => {
+      throw new MitraApiError('Table not found', 404);
+    });
+    const onError = vi.fn();
+
+    subscribeToChanges(source, vi.fn(), { onError, reconnectDelayMs: 0 });
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledOnce());
+
+    expect(onError.mock.calls[0][0]).toMatchObject({ status: 404 });
+    expect(source.open).toHaveBeenCalledOnce();
+    expect(source.onTokenRefreshed.mock.results[0].value).toHaveBeenCalledOnce();
+  });
+});
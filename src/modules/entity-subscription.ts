@@ -0,0 +1,175 @@
+import { coreErrors } from '../core-errors';
+import { MitraApiError } from '../utils/http-client';
+import { sleep } from '../utils/sleep';
+import { parseServerSentEvents, type ServerSentEvent } from '../utils/streams';
+import type {
+  RecordChangeCallback,
+  RecordChangeEvent,
+  SubscribeOptions,
+} from './entities.types';
+
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Where a subscription reads its changes from.
+ * @internal
+ */
+export interface ChangeSource<T> {
+  /** Opens the change stream after `cursor`, the last received event ID. */
+  open(cursor: string | undefined, signal: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+  /** Checks or transforms a changed record. */
+  checkRecord(value: unknown): Promise<T>;
+  /** Called before every delivered change. */
+  onChange(): void;
+  /** Registers a callback for access token refreshes. */
+  onTokenRefreshed?: (callback: () => void) => () => void;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Client errors that reconnecting cannot fix; 401, 408, and 429 may succeed later
+function isRejection(error: unknown): error is MitraApiError {
+  return (
+    error instanceof MitraApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    ![401, 408, 429].includes(error.status)
+  );
+}
+
+async function readChange<T>(
+  message: ServerSentEvent,
+  checkRecord: (value: unknown) => Promise<T>
+): Promise<RecordChangeEvent<T> | undefined> {
+  const { event } = message;
+  if (event === 'resync') return { type: 'resync' };
+  if (event !== 'insert' && event !== 'update' && event !== 'delete') return undefined;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(message.data);
+  } catch {
+    throw coreErrors.invalidResponse(`Change event "${event}" has invalid JSON data`);
+  }
+  if (event === 'delete') {
+    const id = isObject(payload) ? payload.id : undefined;
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      throw coreErrors.invalidResponse('Change event "delete" has an invalid id field');
+    }
+    return { type: 'delete', id: String(id) };
+  }
+  if (!isObject(payload) || !isObject(payload.record)) {
+    throw coreErrors.invalidResponse(`Change event "${event}" has an invalid record field`);
+  }
+  return { type: event, record: await checkRecord(payload.record) };
+}
+
+/**
+ * Streams changes from `source` to `callback` until unsubscribed.
+ *
+ * Every event ID is kept as the cursor, so a reconnect resumes where the
+ * previous connection stopped. A reconnect without a cursor delivers
+ * `resync`, because changes may have been missed. Token refreshes end the
+ * current connection and reconnect right away with the new token.
+ *
+ * @returns Unsubscribe function.
+ * @internal
+ */
+export function subscribeToChanges<T>(
+  source: ChangeSource<T>,
+  callback: RecordChangeCallback<T>,
+  options: SubscribeOptions = {}
+): () => void {
+  const {
+    signal,
+    reconnectDelayMs = DEFAULT_RECONNECT_DELAY_MS,
+    maxReconnectDelayMs = DEFAULT_MAX_RECONNECT_DELAY_MS,
+    onError,
+  } = options;
+  let stopped = false;
+  let connection: AbortController | undefined;
+  let cursor: string | undefined;
+
+  const report = (error: MitraApiError) => {
+    try {
+      onError?.(error);
+    } catch (listenerError) {
+      console.error('Subscription error callback error:', listenerError);
+    }
+  };
+
+  const deliver = (event: RecordChangeEvent<T>) => {
+    source.onChange();
+    try {
+      callback(event);
+    } catch (error) {
+      console.error('Subscription listener error:', error);
+    }
+  };
+
+  const unsubscribeRefresh = source.onTokenRefreshed?.(() => connection?.abort());
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    connection?.abort();
+    unsubscribeRefresh?.();
+    signal?.removeEventListener('abort', stop);
+  };
+
+  const handle = async (message: ServerSentEvent) => {
+    try {
+      const event = await readChange(message, (value) => source.checkRecord(value));
+      if (event && !stopped) deliver(event);
+    } catch (error) {
+      if (!(error instanceof MitraApiError)) throw error;
+      report(error);
+    }
+    if (message.id !== undefined) cursor = message.id;
+  };
+
+  const run = async () => {
+    let delay = reconnectDelayMs;
+    let connected = false;
+    while (!stopped) {
+      const attempt = new AbortController();
+      connection = attempt;
+      try {
+        const body = await source.open(cursor, attempt.signal);
+        if (connected && cursor === undefined) deliver({ type: 'resync' });
+        connected = true;
+        for await (const message of parseServerSentEvents(body)) {
+          delay = reconnectDelayMs;
+          await handle(message);
+          if (attempt.signal.aborted) break;
+        }
+      } catch (error) {
+        if (stopped) return;
+        if (!attempt.signal.aborted && isRejection(error)) {
+          report(error);
+          stop();
+          return;
+        }
+      }
+      if (stopped || attempt.signal.aborted) continue;
+      try {
+        await sleep(delay, attempt.signal);
+      } catch {
+        // Woken by a token refresh or unsubscribe
+        continue;
+      }
+      delay = Math.min(delay * 2, maxReconnectDelayMs);
+    }
+  };
+
+  if (signal?.aborted) {
+    stop();
+    return stop;
+  }
+  signal?.addEventListener('abort', stop, { once: true });
+  void run();
+  return stop;
+}
@@ -0,0 +1,542 @@
+import {
+  createEntitiesModule,
+  encodePathSegment,
+  expectObject,
+  type EntityTable as CoreEntityTable,
+} from '@mitralab.io/sdk-core';
+import { coreErrors } from '../core-errors';
+import { HttpClient, MitraApiError, type CallOptions } from '../utils/http-client';
+import { readAggregateRows, serializeAggregation } from './entity-aggregate';
+import { runBatch } from './entity-batch';
+import {
+  checkWithoutRelations,
+  expandRelations,
+  type RelatedRecordsReader,
+  type WithExpand,
+} from './entity-expand';
+import { serializeFilter } from './entity-filter';
+import { EntityQuery } from './entity-query';
+import { validateRecord, validateRecords } from './entity-schema';
+import { subscribeToChanges } from './entity-subscription';
+import { QueryCache, tableCacheKey } from '../utils/query-cache';
+import { OfflineQueue, type MutationRequest } from './offline';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+import type {
+  AggregateFunction,
+  AggregateMetric,
+  AggregateOptions,
+  BatchOptions,
+  EntityFilter,
+  EntityListOptions,
+  EntityMutationRollback,
+  EntityPage,
+  EntityPageOptions,
+  EntityPaginateOptions,
+  EntityTable,
+  EntityTableOptions,
+  MutationStatus,
+  OptimisticMutation,
+  RecordChangeCallback,
+  SubscribeOptions,
+  UpsertOptions,
+} from './entities.types';
+
+const DEFAULT_PAGE_SIZE = 100;
+const READ_ALL_PAGE_SIZE = 1000;
+
+function hasCallOptions(value: unknown): value is CallOptions {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ('signal' in value || 'timeoutMs' in value || 'retry' in value)
+  );
+}
+
+function expectPage<T>(value: unknown, skip: number): EntityPage<T> {
+  const response = expectObject<Record<string, unknown>>(value, 'Records response', coreErrors);
+  if (!Array.isArray(response.data)) {
+    throw coreErrors.invalidResponse('Records response has an invalid data field');
+  }
+  if (typeof response.total !== 'number' || typeof response.hasMore !== 'boolean') {
+    throw coreErrors.invalidResponse('Records response has an invalid total or hasMore field');
+  }
+  return {
+    data: response.data as T[],
+    total: response.total,
+    hasMore: response.hasMore,
+    nextSkip: response.hasMore ? skip + response.data.length : null,
+  };
+}
+
+// A `fields` projection leaves out columns the row schema requires
+function hasFields(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { fields?: unknown }).fields) &&
+    (value as { fields: unknown[] }).fields.length > 0
+  );
+}
+
+function hasExpand(value: unknown): value is { expand: string[] } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { expand?: unknown }).expand) &&
+    (value as { expand: unknown[] }).expand.length > 0
+  );
+}
+
+type CoreMethod<R> = (...args: unknown[]) => Promise<R>;
+
+/**
+ * Client-wide state shared by the tables of one client.
+ * @internal
+ */
+export interface EntityTableContext {
+  cache?: QueryCache;
+  offline?: OfflineQueue;
+  onRollback?: (event: EntityMutationRollback) => void;
+  onTokenRefreshed?: (callback: () => void) => () => void;
+}
+
+type RecordChange = (record: Record<string, unknown>) => Record<string, unknown> | undefined;
+
+function isRecord(value: unknown, id: string): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'id' in value &&
+    String(value.id) === id
+  );
+}
+
+/**
+ * Applies `change` to the record with `id` in a cached list, page, or record.
+ * Returns `value` itself when nothing matched.
+ */
+function patchRecords(value: unknown, id: string, change: RecordChange): unknown {
+  if (Array.isArray(value)) {
+    let changed = false;
+    const records = value.flatMap((record: unknown) => {
+      if (!isRecord(record, id)) return [record];
+      changed = true;
+      const next = change(record);
+      return next === undefined ? [] : [next];
+    });
+    return changed ? records : value;
+  }
+  if (typeof value === 'object' && value !== null && 'hasMore' in value && 'data' in value) {
+    const page = value as EntityPage<unknown>;
+    const data = patchRecords(page.data, id, change) as unknown[];
+    if (data === page.data) return value;
+    return { ...page, data, total: page.total - (page.data.length - data.length) };
+  }
+  // A cached `get` of a deleted record stays until the delete invalidates it
+  return isRecord(value, id) ? (change(value) ?? value) : value;
+}
+
+/**
+ * Wraps an sdk-core table with the Platform SDK table features.
+ * Members without a Platform override are forwarded to the core table.
+ * @internal
+ */
+export function createEntityTable<T>(
+  httpClient: HttpClient,
+  tableName: string,
+  core: CoreEntityTable<T>,
+  options: EntityTableOptions<T> = {},
+  context: EntityTableContext = {}
+): EntityTable<T> {
+  const { schema, createSchema, updateSchema, relations = {} } = options;
+  const {
+    cache = new QueryCache(),
+    offline = new OfflineQueue(),
+    onRollback = () => undefined,
+    onTokenRefreshed,
+  } = context;
+  const checkRecord = async (value: T): Promise<T> =>
+    schema ? validateRecord(schema, value, tableName, 'response') : value;
+  const checkRecords = async (values: T[]): Promise<T[]> =>
+    schema ? validateRecords(schema, values, tableName) : values;
+  const checkInput = async (inputSchema: StandardSchemaV1 | undefined, data: unknown) =>
+    inputSchema ? validateRecord(inputSchema, data, tableName, 'input') : data;
+
+  const coreFor = (options: CallOptions): CoreEntityTable<T> =>
+    createEntitiesModule(httpClient.withOptions(options), coreErrors).getTable<T>(tableName);
+  const writer = (options?: CallOptions) => (options ? coreFor(options) : core);
+
+  const cached = <R>(
+    operation: string,
+    args: unknown[],
+    load: (signal?: AbortSignal) => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<R> => cache.read(tableCacheKey(tableName, operation, args), load, signal);
+
+  const write = async <R>(mutation: MutationRequest, send: () => Promise<R>): Promise<R> => {
+    const value = await offline.run(mutation, send);
+    cache.invalidateTable(tableName);
+    return value;
+  };
+
+  const tablePath = (name: string) =>
+    `/api/v1/tables/${encodePathSegment(name, 'tableName', coreErrors)}/records`;
+  const recordsPath = () => tablePath(tableName);
+
+  /** Reads every record of a table matching `q`, page by page. */
+  const readAll = async (
+    path: string,
+    params: Record<string, string | undefined>,
+    options: CallOptions
+  ): Promise<unknown[]> => {
+    const records: unknown[] = [];
+    let skip: number | null = 0;
+    while (skip !== null) {
+      const response: unknown = await httpClient.request<unknown>(path, {
+        params: { ...params, limit: READ_ALL_PAGE_SIZE, skip },
+        ...options,
+      });
+      const page: EntityPage<unknown> = expectPage(response, skip);
+      records.push(...page.data);
+      skip = page.data.length > 0 ? page.nextSkip : null;
+    }
+    return records;
+  };
+
+  const matchingIds = async (filter: EntityFilter<T>, options: CallOptions): Promise<string[]> => {
+    const params = { q: serializeFilter(filter), fields: 'id' };
+    const records = await readAll(recordsPath(), params, options);
+    return records.map((record) => String((record as { id?: unknown }).id));
+  };
+
+  const readRelated: RelatedRecordsReader = (table, filter, options) =>
+    readAll(tablePath(table), { q: serializeFilter(filter) }, options);
+
+  const nest = async <R>(records: R[], expand: string[] | undefined, options: CallOptions) => {
+    if (expand?.length) {
+      await expandRelations(records, expand, relations, tableName, readRelated, options);
+    }
+    return records;
+  };
+
+  const batch = async (
+    inputs: unknown[],
+    options: BatchOptions,
+    prepare: (input: unknown) => Promise<unknown>,
+    method: 'POST' | 'PATCH',
+    action: 'bulk' | 'upsert',
+    body: Record<string, unknown> = {}
+  ) => {
+    return runBatch(
+      inputs,
+      options,
+      prepare,
+      async (records, callOptions) => {
+        try {
+          return await httpClient.request<unknown>(`${recordsPath()}/${action}`, {
+            method,
+            body: { ...body, records },
+            ...callOptions,
+          });
+        } finally {
+          // Earlier chunks, or part of a failed one, may be written already
+          cache.invalidateTable(tableName);
+        }
+      },
+      (record) => checkRecord(record as T)
+    );
+  };
+
+  const listPage = async (
+    options: WithExpand<EntityPageOptions<T>> = {}
+  ): Promise<EntityPage<T>> => {
+    const { filter, sort, limit, skip = 0, fields, expand, signal, timeoutMs, retry } = options;
+    const q = filter === undefined ? undefined : serializeFilter(filter);
+    const params = { q, sort, limit, skip, fields: fields?.join(','), expand: expand?.join(',') };
+    return cached(
+      'listPage',
+      [params],
+      async (loadSignal) => {
+        const response = await httpClient.request<unknown>(recordsPath(), {
+          params,
+          signal: loadSignal,
+          timeoutMs,
+          retry,
+        });
+        const page = expectPage<T>(response, skip);
+        const data =
+          schema && !fields?.length
+            ? await checkWithoutRelations(page.data, expand, checkRecords)
+            : page.data;
+        const nested = await nest(data, expand, { signal: loadSignal, timeoutMs, retry });
+        return { ...page, data: nested };
+      },
+      signal
+    );
+  };
+
+  const mutate = <R>(
+    type: EntityMutationRollback['type'],
+    id: string,
+    data: unknown,
+    change: RecordChange,
+    send: () => Promise<R>
+  ): OptimisticMutation<R> => {
+    const restore = cache.patchTable(tableName, (value) => patchRecords(value, id, change));
+    let status: MutationStatus = 'pending';
+    const result = send().then(
+      (value) => {
+        status = 'committed';
+        return value;
+      },
+      (error: unknown) => {
+        status = 'rolledBack';
+        restore();
+        if (error instanceof MitraApiError) onRollback({ table: tableName, type, id, data, error });
+        throw error;
+      }
+    );
+    // Rollback listeners may be the only error handling, so an unawaited failure is not unhandled
+    result.catch(() => undefined);
+    return {
+      get status() {
+        return status;
+      },
+      result,
+    };
+  };
+
+  async function* paginate(
+    options: WithExpand<EntityPaginateOptions<T>> = {}
+  ): AsyncGenerator<EntityPage<T>, void, undefined> {
+    const { pageSize = DEFAULT_PAGE_SIZE, ...pageOptions } = options;
+    let skip: number | null = pageOptions.skip ?? 0;
+    while (skip !== null) {
+      const page = await listPage({ ...pageOptions, limit: pageSize, skip });
+      yield page;
+      // An empty page that claims more records would otherwise loop forever
+      skip = page.data.length > 0 ? page.nextSkip : null;
+    }
+  }
+
+  const overrides: Record<string, unknown> = {
+    list: async (...args: unknown[]): Promise<T[]> => {
+      const [options] = args;
+      if (hasExpand(options)) return (await listPage(options as EntityPageOptions<T>)).data;
+      const checkList = hasFields(options) ? async (values: T[]) => values : checkRecords;
+      if (hasCallOptions(options)) {
+        const { signal, timeoutMs, retry, ...listOptions } = options as EntityListOptions;
+        return cached(
+          'list',
+          [listOptions],
+          async (loadSignal) =>
+            checkList(await coreFor({ signal: loadSignal, timeoutMs, retry }).list(listOptions)),
+          signal
+        );
+      }
+      return cached('list', args, async () =>
+        checkList(await (core.list as CoreMethod<T[]>)(...args))
+      );
+    },
+    get: (...args: unknown[]): Promise<T> => {
+      const [id, options] = args;
+      if (!hasExpand(options)) {
+        return cached('get', args, async () =>
+          checkRecord(await (core.get as CoreMethod<T>)(...args))
+        );
+      }
+      const { expand, signal, timeoutMs, retry } = options as CallOptions & { expand: string[] };
+      const path = `${recordsPath()}/${encodePathSegment(String(id), 'id', coreErrors)}`;
+      return cached(
+        'get',
+        [id, { expand }],
+        async (loadSignal) => {
+          const response = await httpClient.request<unknown>(path, {
+            params: { expand: expand.join(',') },
+            signal: loadSignal,
+            timeoutMs,
+            retry,
+          });
+          const record = expectObject<T>(response, 'Record response', coreErrors);
+          const checked = await checkWithoutRelations([record], expand, async ([value]) => [
+            await checkRecord(value),
+          ]);
+          const [nested] = await nest(checked, expand, {
+            signal: loadSignal,
+            timeoutMs,
+            retry,
+          });
+          return nested;
+        },
+        signal
+      );
+    },
+    create: async (data: unknown, options?: CallOptions): Promise<T> => {
+      const input = await checkInput(createSchema, data);
+      const send = () => (writer(options).create as CoreMethod<T>)(input);
+      return checkRecord(await write({ table: tableName, type: 'create', data: input }, send));
+    },
+    update: async (id: string, data: unknown, options?: CallOptions): Promise<T> => {
+      const input = await checkInput(updateSchema, data);
+      const send = () => (writer(options).update as CoreMethod<T>)(id, input);
+      return checkRecord(
+        await write({ table: tableName, type: 'update', recordId: id, data: input }, send)
+      );
+    },
+    delete: (id: string, options?: CallOptions): Promise<void> =>
+      write({ table: tableName, type: 'delete', recordId: id }, () =>
+        (writer(options).delete as CoreMethod<void>)(id)
+      ),
+    filter: async (
+      query: EntityFilter<T>,
+      sortOrOptions?: string | EntityListOptions,
+      limit?: number,
+      skip?: number
+    ): Promise<T[]> => {
+      const options =
+        typeof sortOrOptions === 'object' ? sortOrOptions : { sort: sortOrOptions, limit, skip };
+      return (await listPage({ ...options, filter: query })).data;
+    },
+    deleteMany: async (query: EntityFilter<T>) => {
+      // A filter whose conditions are all undefined would otherwise match every record
+      if (serializeFilter(query) === '{}') {
+        throw coreErrors.configuration('deleteMany requires a non-empty filter');
+      }
+      const result = await core.deleteMany(
+        query as Parameters<CoreEntityTable<T>['deleteMany']>[0]
+      );
+      cache.invalidateTable(tableName);
+      return result;
+    },
+    listPage,
+    paginate,
+    count: (filter?: EntityFilter<T>, options: CallOptions = {}) => {
+      const q = filter === undefined ? undefined : serializeFilter(filter);
+      const { signal, timeoutMs, retry } = options;
+      return cached(
+        'count',
+        [q],
+        async (loadSignal) => {
+          const response = await httpClient.request<unknown>(recordsPath(), {
+            params: { q, fields: 'id', limit: 1 },
+            signal: loadSignal,
+            timeoutMs,
+            retry,
+          });
+          return expectPage(response, 0).total;
+        },
+        signal
+      );
+    },
+    aggregate: (
+      options: AggregateOptions<
+        T,
+        keyof T & string,
+        Record<string, AggregateMetric<AggregateFunction, keyof T & string>>
+      >
+    ) => {
+      const { metrics, groupBy, filter, signal, timeoutMs, retry } = options;
+      const params = {
+        q: filter === undefined ? undefined : serializeFilter(filter),
+        ...serializeAggregation(metrics, groupBy),
+      };
+      return cached(
+        'aggregate',
+        [params],
+        async (loadSignal) =>
+          readAggregateRows(
+            await httpClient.request<unknown>(`${recordsPath()}/aggregate`, {
+              params,
+              signal: loadSignal,
+              timeoutMs,
+              retry,
+            })
+          ),
+        signal
+      );
+    },
+    query: () => new EntityQuery<T>({ listPage, paginate }),
+    createMany: (records: unknown[], options: BatchOptions = {}) =>
+      batch(records, options, (record) => checkInput(createSchema, record), 'POST', 'bulk'),
+    updateMany: async (filter: EntityFilter<T>, patch: unknown, options: BatchOptions = {}) => {
+      if (Object.keys(filter).length === 0) {
+        throw coreErrors.configuration('updateMany requires a non-empty filter');
+      }
+      const { signal, timeoutMs, retry } = options;
+      const data = await checkInput(updateSchema, patch);
+      const ids = await matchingIds(filter, { signal, timeoutMs, retry });
+      return batch(ids, options, async (id) => ({ ...(data as object), id }), 'PATCH', 'bulk');
+    },
+    upsert: async (input: unknown, options: UpsertOptions<T>) => {
+      const { conflictKeys, ...batchOptions } = options;
+      if (!Array.isArray(conflictKeys) || conflictKeys.length === 0) {
+        throw coreErrors.configuration('upsert requires at least one conflict key');
+      }
+      const records = Array.isArray(input) ? input : [input];
+      const report = await batch(
+        records,
+        batchOptions,
+        (record) => checkInput(createSchema, record),
+        'POST',
+        'upsert',
+        { conflictKeys }
+      );
+      if (Array.isArray(input)) return report;
+      const [result] = report.results;
+      if (!result.ok) throw result.error;
+      return result.record;
+    },
+    optimisticUpdate: (id: string, data: Record<string, unknown>): OptimisticMutation<T> =>
+      mutate(
+        'update',
+        id,
+        data,
+        (record) => ({ ...record, ...data }),
+        () => (overrides.update as CoreMethod<T>)(id, data)
+      ),
+    optimisticDelete: (id: string): OptimisticMutation<void> =>
+      mutate(
+        'delete',
+        id,
+        undefined,
+        () => undefined,
+        () => (overrides.delete as CoreMethod<void>)(id)
+      ),
+    subscribe: (
+      filterOrCallback: EntityFilter<T> | RecordChangeCallback<T>,
+      callbackOrOptions?: RecordChangeCallback<T> | SubscribeOptions,
+      subscribeOptions?: SubscribeOptions
+    ) => {
+      const [filter, callback, options] =
+        typeof filterOrCallback === 'function'
+          ? [undefined, filterOrCallback, callbackOrOptions as SubscribeOptions | undefined]
+          : [filterOrCallback, callbackOrOptions as RecordChangeCallback<T>, subscribeOptions];
+      const q = filter === undefined ? undefined : serializeFilter(filter);
+      return subscribeToChanges<T>(
+        {
+          open: (cursor, signal) =>
+            httpClient.stream(`${recordsPath()}/changes`, {
+              headers: { Accept: 'text/event-stream' },
+              params: { q, cursor },
+              signal,
+            }),
+          checkRecord: (value) => checkRecord(value as T),
+          onChange: () => cache.invalidateTable(tableName),
+          onTokenRefreshed,
+        },
+        callback,
+        options
+      );
+    },
+  };
+
+  return new Proxy(core, {
+    get(target, property) {
+      if (typeof property === 'string' && Object.hasOwn(overrides, property)) {
+        return overrides[property];
+      }
+      const value: unknown = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  }) as EntityTable<T>;
+}
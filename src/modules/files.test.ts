@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mockFetch, mockFetchSequence } from '../test-utils';
+import { HttpClient } from '../utils/http-client';
+import { FilesModule } from './files';
+
+const BASE = 'https://api.mitra.io/data-manager';
+const stored = {
+  id: 'f1',
+  name: 'photo.png',
+  size: 10,
+  contentType: 'image/png',
+  createdAt: '2026-01-01T00:00:00Z',
+};
+
+function createFiles() {
+  const updateRecord = vi.fn(async (_table: string, id: string, data: Record<string, unknown>) => ({
+    id,
+    ...data,
+  }));
+  return { files: new FilesModule(new HttpClient({ baseUrl: BASE }), updateRecord), updateRecord };
+}
+
+const blob = (size: number, type = 'image/png') => new Blob([new Uint8Array(size)], { type });
+
+describe('FilesModule', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should upload small files as multipart form data', async () => {
+    const fetchMock = mockFetch(stored);
+    const onProgress = vi.fn();
+    const { files } = createFiles();
+
+    await expect(files.upload(blob(10), { name: 'photo.png', onProgress })).resolves.toEqual(
+      stored
+    );
+
+    const [url, options] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE}/api/v1/files`);
+    expect(options.method).toBe('POST');
+    expect(options.headers['Content-Type']).toBeUndefined();
+    const part = (options.body as FormData).get('file') as File;
+    expect(part.name).toBe('photo.png');
+    expect(part.type).toBe('image/png');
+    expect(part.size).toBe(10);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { loaded: 0, total: 10, uploadId: null },
+      { loaded: 10, total: 10, uploadId: null },
+    ]);
+  });
+
+  it('should upload large files in resumable chunks with progress', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { uploadId: 'u1', offset: 0 } },
+      { body: { uploadId: 'u1', offset: 4 } },
+      { body: { uploadId: 'u1', offset: 8 } },
+      { body: { uploadId: 'u1', offset: 10, file: stored } },
+    ]);
+    const onProgress = vi.fn();
+    const { files } = createFiles();
+
+    await expect(
+      files.upload(blob(10), { name: 'photo.png', chunkSize: 4, onProgress })
+    ).resolves.toEqual(stored);
+
+    const [startUrl, start] = fetchMock.mock.calls[0];
+    expect(startUrl).toBe(`${BASE}/api/v1/files/uploads`);
+    expect(JSON.parse(start.body)).toEqual({
+      name: 'photo.png',
+      size: 10,
+      contentType: 'image/png',
+    });
+    const chunks = fetchMock.mock.calls.slice(1);
+    expect(chunks.map(([url]) => url)).toEqual(Array(3).fill(`${BASE}/api/v1/files/uploads/u1`));
+    expect(chunks.map(([, options]) => options.method)).toEqual(['PUT', 'PUT', 'PUT']);
+    expect(chunks.map(([, options]) => options.headers['Content-Range'])).toEqual([
+      'bytes 0-3/10',
+      'bytes 4-7/10',
+      'bytes 8-9/10',
+    ]);
+    expect(chunks.map(([, options]) => (options.body as Blob).size)).toEqual([4, 4, 2]);
+    expect(onProgress.mock.calls.map(([progress]) => progress.loaded)).toEqual([0, 4, 8, 10]);
+  });
+
+  it('should resume an upload from the offset the server stored', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { uploadId: 'u1', offset: 8 } },
+      { body: { uploadId: 'u1', offset: 10, file: stored } },
+    ]);
+    const { files } = createFiles();
+
+    await files.upload(blob(10), { chunkSize: 4, uploadId: 'u1' });
+
+    const [statusUrl, status] = fetchMock.mock.calls[0];
+    expect(statusUrl).toBe(`${BASE}/api/v1/files/uploads/u1`);
+    expect(status.method).toBe('GET');
+    expect(fetchMock.mock.calls[1][1].headers['Content-Range']).toBe('bytes 8-9/10');
+  });
+
+  it('should reject uploads that do not advance or have an invalid chunk size', async () => {
+    mockFetchSequence([
+      { body: { uploadId: 'u1', offset: 0 } },
+      { body: { uploadId: 'u1', offset: 0 } },
+    ]);
+    const { files } = createFiles();
+
+    await expect(files.upload(blob(10), { chunkSize: 4 })).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+    });
+    await expect(files.upload(blob(10), { chunkSize: 0 })).rejects.toMatchObject({
+      code: 'INVALID_CONFIGURATION',
+    });
+  });
+
+  it('should create signed download URLs and delete files', async () => {
+    const signed = { url: 'https://cdn.mitra.io/f1?sig=abc', expiresAt: '2026-01-01T00:05:00Z' };
+    const fetchMock = mockFetchSequence([{ body: signed }, { body: null, status: 204 }]);
+    const { files } = createFiles();
+
+    await expect(files.getDownloadUrl('f/1', { expiresInSeconds: 300 })).resolves.toEqual(signed);
+    await files.delete('f1');
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `${BASE}/api/v1/files/f%2F1/download-url?expiresIn=300`
+    );
+    expect(fetchMock.mock.calls[1][0]).toBe(`${BASE}/api/v1/files/f1`);
+    expect(fetchMock.mock.calls[1][1].method).toBe('DELETE');
+  });
+
+  it('should attach uploaded and existing files to a record field', async () => {
+    mockFetch(stored);
+    const { files, updateRecord } = createFiles();
+    const target = { table: 'Task', recordId: 't1', field: 'attachment' };
+
+    await expect(files.attach(blob(10), target)).resolves.toEqual({
+      id: 't1',
+      attachment: 'f1',
+    });
+    await files.attach(stored, target);
+    await files.attach('f2', target);
+
+    expect(updateRecord.mock.calls.map(([, , data]) => data)).toEqual([
+      { attachment: 'f1' },
+      { attachment: 'f1' },
+      { attachment: 'f2' },
+    ]);
+    expect(updateRecord).toHaveBeenCalledWith('Task', 't1', { attachment: 'f1' });
+  });
+});
@@ -0,0 +1,244 @@
+import { encodePathSegment, expectObject } from '@mitralab.io/sdk-core';
+import { coreErrors } from '../core-errors';
+import type { CallOptions, HttpClient } from '../utils/http-client';
+import type {
+  AttachTarget,
+  DownloadUrlOptions,
+  SignedUrl,
+  StoredFile,
+  UploadOptions,
+  UploadProgress,
+} from './files.types';
+
+export type {
+  AttachTarget,
+  DownloadUrlOptions,
+  SignedUrl,
+  StoredFile,
+  UploadOptions,
+  UploadProgress,
+} from './files.types';
+
+const FILES_PATH = '/api/v1/files';
+const UPLOADS_PATH = '/api/v1/files/uploads';
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/** Updates one record of a table and returns it. @internal */
+export type RecordUpdater = (
+  table: string,
+  recordId: string,
+  data: Record<string, unknown>
+) => Promise<unknown>;
+
+interface UploadState {
+  uploadId: string;
+  /** Bytes the server has stored. */
+  offset: number;
+  /** The stored file, once the last chunk arrived. */
+  file?: StoredFile;
+}
+
+function expectStoredFile(value: unknown): StoredFile {
+  const file = expectObject<Record<string, unknown>>(value, 'File response', coreErrors);
+  if (typeof file.id !== 'string' || typeof file.name !== 'string') {
+    throw coreErrors.invalidResponse('File response has an invalid id or name field');
+  }
+  if (typeof file.size !== 'number') {
+    throw coreErrors.invalidResponse('File response has an invalid size field');
+  }
+  return {
+    id: file.id,
+    name: file.name,
+    size: file.size,
+    contentType:
+      typeof file.contentType === 'string' ? file.contentType : 'application/octet-stream',
+    createdAt: typeof file.createdAt === 'string' ? file.createdAt : null,
+  };
+}
+
+function expectUploadState(value: unknown): UploadState {
+  const state = expectObject<Record<string, unknown>>(value, 'Upload response', coreErrors);
+  if (typeof state.uploadId !== 'string' || typeof state.offset !== 'number') {
+    throw coreErrors.invalidResponse('Upload response has an invalid uploadId or offset field');
+  }
+  const done = state.file !== undefined && state.file !== null;
+  return {
+    uploadId: state.uploadId,
+    offset: state.offset,
+    file: done ? expectStoredFile(state.file) : undefined,
+  };
+}
+
+function fileName(file: Blob, name: string | undefined): string {
+  if (name) return name;
+  return typeof File !== 'undefined' && file instanceof File && file.name ? file.name : 'file';
+}
+
+function filePath(fileId: string, suffix = ''): string {
+  return `${FILES_PATH}/${encodePathSegment(fileId, 'fileId', coreErrors)}${suffix}`;
+}
+
+/** Uploads, downloads, and deletes files stored by the Data Manager. */
+export class FilesModule {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly updateRecord: RecordUpdater
+  ) {}
+
+  /**
+   * Stores a file. Small files are sent as one multipart request; larger
+   * files are sent in resumable chunks, reporting progress after each chunk.
+   *
+   * @throws {MitraApiError} With code `INVALID_CONFIGURATION` for an invalid
+   *   `chunkSize`, or `INVALID_RESPONSE` when the server answers unexpectedly
+   *
+   * @example
+   * ```typescript
+   * const file = await mitra.files.upload(input.files[0], {
+   *   onProgress: ({ loaded, total }) => setProgress(loaded / total),
+   * });
+   * ```
+   */
+  async upload(file: Blob, options: UploadOptions = {}): Promise<StoredFile> {
+    const { chunkSize = DEFAULT_CHUNK_SIZE, uploadId, onProgress } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw coreErrors.configuration('chunkSize must be a positive integer');
+    }
+    const name = fileName(file, options.name);
+    const contentType = options.contentType || file.type || 'application/octet-stream';
+    const resumable = uploadId !== undefined || (options.resumable ?? file.size > chunkSize);
+    const report = (progress: UploadProgress) => {
+      try {
+        onProgress?.(progress);
+      } catch (error) {
+        console.error('Upload progress callback error:', error);
+      }
+    };
+
+    if (!resumable || file.size === 0) {
+      report({ loaded: 0, total: file.size, uploadId: null });
+      const form = new FormData();
+      form.append('file', new Blob([file], { type: contentType }), name);
+      const stored = expectStoredFile(
+        await this.httpClient.request<unknown>(FILES_PATH, {
+          ...this.callOptions(options),
+          method: 'POST',
+          body: form,
+        })
+      );
+      report({ loaded: file.size, total: file.size, uploadId: null });
+      return stored;
+    }
+
+    let state = expectUploadState(
+      uploadId === undefined
+        ? await this.httpClient.request<unknown>(UPLOADS_PATH, {
+            ...this.callOptions(options),
+            method: 'POST',
+            body: { name, size: file.size, contentType },
+          })
+        : await this.httpClient.request<unknown>(
+            this.uploadPath(uploadId),
+            this.callOptions(options)
+          )
+    );
+    report({ loaded: state.offset, total: file.size, uploadId: state.uploadId });
+
+    while (!state.file) {
+      const { offset } = state;
+      if (offset >= file.size) {
+        throw coreErrors.invalidResponse('Upload response is complete but has no file field');
+      }
+      const end = Math.min(offset + chunkSize, file.size);
+      state = expectUploadState(
+        await this.httpClient.request<unknown>(this.uploadPath(state.uploadId), {
+          ...this.callOptions(options),
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Range': `bytes ${offset}-${end - 1}/${file.size}`,
+          },
+          body: file.slice(offset, end),
+        })
+      );
+      if (!state.file && state.offset <= offset) {
+        throw coreErrors.invalidResponse('Upload response did not advance the offset');
+      }
+      const loaded = state.file ? file.size : state.offset;
+      report({ loaded, total: file.size, uploadId: state.uploadId });
+    }
+    return state.file;
+  }
+
+  /**
+   * Creates a time-limited URL for downloading a file, for `<img>` tags and
+   * links that cannot send the access token.
+   *
+   * @example
+   * ```typescript
+   * const { url } = await mitra.files.getDownloadUrl(task.attachment, { expiresInSeconds: 300 });
+   * image.src = url;
+   * ```
+   */
+  async getDownloadUrl(fileId: string, options: DownloadUrlOptions = {}): Promise<SignedUrl> {
+    const response = expectObject<Record<string, unknown>>(
+      await this.httpClient.request<unknown>(filePath(fileId, '/download-url'), {
+        ...this.callOptions(options),
+        params: { expiresIn: options.expiresInSeconds },
+      }),
+      'Download URL response',
+      coreErrors
+    );
+    if (typeof response.url !== 'string' || typeof response.expiresAt !== 'string') {
+      throw coreErrors.invalidResponse(
+        'Download URL response has an invalid url or expiresAt field'
+      );
+    }
+    return { url: response.url, expiresAt: response.expiresAt };
+  }
+
+  /** Deletes a stored file. Records that reference it keep the file ID. */
+  async delete(fileId: string, options: CallOptions = {}): Promise<void> {
+    await this.httpClient.request<unknown>(filePath(fileId), {
+      ...this.callOptions(options),
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Stores the ID of a file in a record field, uploading the file first when
+   * it is a `Blob`, and returns the updated record.
+   *
+   * @example
+   * ```typescript
+   * const task = await mitra.files.attach(input.files[0], {
+   *   table: 'Task',
+   *   recordId: task.id,
+   *   field: 'attachment',
+   * });
+   * ```
+   */
+  async attach<T = Record<string, unknown>>(
+    file: Blob | StoredFile | string,
+    target: AttachTarget,
+    options: UploadOptions = {}
+  ): Promise<T> {
+    const fileId =
+      typeof file === 'string'
+        ? file
+        : file instanceof Blob
+          ? (await this.upload(file, options)).id
+          : file.id;
+    return (await this.updateRecord(target.table, target.recordId, {
+      [target.field]: fileId,
+    })) as T;
+  }
+
+  private uploadPath(uploadId: string): string {
+    return `${UPLOADS_PATH}/${encodePathSegment(uploadId, 'uploadId', coreErrors)}`;
+  }
+
+  private callOptions({ signal, timeoutMs, retry }: CallOptions): CallOptions {
+    return { signal, timeoutMs, retry };
+  }
+}
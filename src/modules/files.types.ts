@@ -0,0 +1,66 @@
+import type { CallOptions } from '../utils/http-client';
+
+/** File stored with `mitra.files.upload`. */
+export interface StoredFile {
+  /** Unique file ID; store it in an entity field to attach the file. */
+  id: string;
+  /** File name. */
+  name: string;
+  /** Size in bytes. */
+  size: number;
+  /** MIME type. */
+  contentType: string;
+  /** When the file was stored (ISO 8601). */
+  createdAt: string | null;
+}
+
+/** Progress of an upload, reported after each sent chunk. */
+export interface UploadProgress {
+  /** Bytes stored so far. */
+  loaded: number;
+  /** Size of the file in bytes. */
+  total: number;
+  /** ID of a resumable upload; pass it as `uploadId` to resume after a failure. */
+  uploadId: string | null;
+}
+
+/** Options for `files.upload`. */
+export interface UploadOptions extends CallOptions {
+  /** File name. Defaults to the name of a `File`, or `file`. */
+  name?: string;
+  /** MIME type. Defaults to the type of the blob, or `application/octet-stream`. */
+  contentType?: string;
+  /**
+   * Uploads in chunks that can be resumed after a failure. Defaults to `true`
+   * for files larger than `chunkSize`; smaller files are sent as one
+   * multipart request.
+   */
+  resumable?: boolean;
+  /** Bytes per chunk of a resumable upload (default: 5 MiB). */
+  chunkSize?: number;
+  /** Resumes the resumable upload with this ID from the bytes the server already has. */
+  uploadId?: string;
+  /** Called with the upload progress when the upload starts and after each chunk. */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/** Options for `files.getDownloadUrl`. */
+export interface DownloadUrlOptions extends CallOptions {
+  /** How long the URL stays valid, in seconds. Defaults to the server setting. */
+  expiresInSeconds?: number;
+}
+
+/** Time-limited URL for downloading a file without the access token. */
+export interface SignedUrl {
+  url: string;
+  /** When the URL stops working (ISO 8601). */
+  expiresAt: string;
+}
+
+/** Entity record field that `files.attach` links a file to. */
+export interface AttachTarget {
+  table: string;
+  recordId: string;
+  /** Field that stores the file ID. */
+  field: string;
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { FunctionsModule } from './functions';
 import { HttpClient } from '../utils/http-client';
-import { mockFetch } from '../test-utils';
+import { createByteStream, mockAbortableFetch, mockFetch } from '../test-utils';
 
 const BASE = 'https://api.mitra.io/functions';
 
@@ -61,4 +61,305 @@ describe('FunctionsModule', () => {
       code: 'INVALID_RESPONSE',
     });
   });
+
+  it('should abort an execution through the call options', async () => {
+    const fetchMock = mockAbortableFetch();
+    const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+    const controller = new AbortController();
+
+    const result = functions.execute('fn-1', { key: 'value' }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    expect(fetchMock.mock.calls[0][0]).toBe(`${BASE}/api/v1/functions/fn-1/execute`);
+  });
+
+  describe('execution polling', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const withStatus = (status: string) => ({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({ ...fakeExecution, status }),
+    });
+
+    it('should get an execution by id', async () => {
+      const fetchMock = mockFetch(fakeExecution);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.getExecution('exec/1')).resolves.toEqual(fakeExecution);
+      expect(fetchMock.mock.calls[0][0]).toBe(`${BASE}/api/v1/executions/exec%2F1`);
+      expect(fetchMock.mock.calls[0][1].method).toBe('GET');
+    });
+
+    it('should reject an execution response without a status', async () => {
+      mockFetch({ ...fakeExecution, status: undefined });
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.getExecution('exec-1')).rejects.toMatchObject({
+        code: 'INVALID_RESPONSE',
+      });
+    });
+
+    it('should poll with backoff until the execution finishes', async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(withStatus('PENDING'))
+        .mockResolvedValueOnce(withStatus('RUNNING'))
+        .mockResolvedValueOnce(withStatus('FAILED'));
+      vi.stubGlobal('fetch', fetchMock);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      const result = functions.waitForExecution('exec-1', { intervalMs: 100 });
+      await vi.advanceTimersByTimeAsync(99);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(150);
+
+      await expect(result).resolves.toMatchObject({ status: 'FAILED' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should time out while the execution is still running', async () => {
+      vi.useFakeTimers();
+      vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => withStatus('RUNNING')));
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      const result = functions.waitForExecution('exec-1', { intervalMs: 400, timeoutMs: 1000 });
+      const assertion = expect(result).rejects.toMatchObject({
+        status: 0,
+        code: 'FUNCTION_EXECUTION_TIMEOUT',
+        details: { executionId: 'exec-1', status: 'RUNNING' },
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+    });
+
+    it('should time out a poll that hangs past the deadline', async () => {
+      vi.useFakeTimers();
+      const fetchMock = mockAbortableFetch();
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      const result = functions.waitForExecution('exec-1', { timeoutMs: 1000 });
+      const assertion = expect(result).rejects.toMatchObject({
+        status: 0,
+        code: 'FUNCTION_EXECUTION_TIMEOUT',
+        details: { executionId: 'exec-1', status: null },
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should stop waiting when the signal aborts', async () => {
+      vi.useFakeTimers();
+      mockFetch({ ...fakeExecution, status: 'PENDING' });
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+      const controller = new AbortController();
+
+      const result = functions.waitForExecution('exec-1', { signal: controller.signal });
+      const assertion = expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await assertion;
+    });
+
+    it('should execute and resolve with the completed execution', async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(withStatus('PENDING'))
+        .mockResolvedValueOnce(withStatus('COMPLETED'));
+      vi.stubGlobal('fetch', fetchMock);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      const result = functions.executeAndWait('fn-1', { key: 'value' }, { intervalMs: 10 });
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(result).resolves.toMatchObject({ status: 'COMPLETED', output: { result: 42 } });
+      expect(fetchMock.mock.calls[1][0]).toBe(`${BASE}/api/v1/executions/exec-1`);
+    });
+
+    it('should throw FUNCTION_EXECUTION_FAILED when the execution fails', async () => {
+      mockFetch({ ...fakeExecution, status: 'FAILED', errorMessage: 'Boom' });
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.executeAndWait('fn-1')).rejects.toMatchObject({
+        message: 'Boom',
+        code: 'FUNCTION_EXECUTION_FAILED',
+        details: { id: 'exec-1', status: 'FAILED' },
+      });
+    });
+  });
+
+  describe('synchronous invocation', () => {
+    it('should send the sync invocation header and return the output', async () => {
+      const fetchMock = mockFetch(fakeExecution);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.invoke('fn-1', { key: 'value' })).resolves.toEqual({ result: 42 });
+      const [url, options] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE}/api/v1/functions/fn-1/execute`);
+      expect(options.method).toBe('POST');
+      expect(options.headers['X-Invocation-Type']).toBe('sync');
+      expect(JSON.parse(options.body)).toEqual({ input: { key: 'value' } });
+    });
+
+    it('should poll when the service returns a pending execution', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockResolvedValue({ ...fakeExecution, status: 'PENDING', output: null }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: vi.fn().mockResolvedValue(fakeExecution) });
+      vi.stubGlobal('fetch', fetchMock);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.invoke('fn-1', undefined, { intervalMs: 0 })).resolves.toEqual({
+        result: 42,
+      });
+      expect(fetchMock.mock.calls[0][1].body).toBeUndefined();
+      expect(fetchMock.mock.calls[1][0]).toBe(`${BASE}/api/v1/executions/exec-1`);
+    });
+
+    it('should bound the request and the polling with one timeout', async () => {
+      vi.useFakeTimers();
+      const withStatus = (status: string) => ({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({ ...fakeExecution, status, output: null }),
+      });
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockImplementationOnce(
+            () => new Promise((resolve) => setTimeout(() => resolve(withStatus('PENDING')), 600))
+          )
+          .mockImplementation(async () => withStatus('RUNNING'))
+      );
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+      const startedAt = Date.now();
+
+      const result = functions.invoke('fn-1', undefined, { intervalMs: 400, timeoutMs: 1000 });
+      const assertion = expect(result).rejects.toMatchObject({
+        code: 'FUNCTION_EXECUTION_TIMEOUT',
+        details: { executionId: 'exec-1', status: 'RUNNING' },
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      expect(Date.now() - startedAt).toBe(1000);
+      vi.useRealTimers();
+    });
+
+    it('should report a sync request past the timeout as an execution timeout', async () => {
+      mockAbortableFetch();
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.invoke('fn-1', undefined, { timeoutMs: 10 })).rejects.toMatchObject({
+        status: 0,
+        code: 'FUNCTION_EXECUTION_TIMEOUT',
+        details: { functionId: 'fn-1' },
+      });
+    });
+
+    it('should throw FUNCTION_EXECUTION_FAILED when the invocation fails', async () => {
+      mockFetch({ ...fakeExecution, status: 'FAILED', output: null, errorMessage: 'Boom' });
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(functions.invoke('fn-1')).rejects.toMatchObject({
+        code: 'FUNCTION_EXECUTION_FAILED',
+      });
+    });
+  });
+
+  describe('log streaming', () => {
+    const sse = (...chunks: string[]) => ({ ok: true, status: 200, body: createByteStream(chunks) });
+    const log = (offset: number, message: string) =>
+      `event: log\ndata: ${JSON.stringify({ offset, message, timestamp: null })}\n\n`;
+
+    async function collect(iterable: AsyncIterable<unknown>) {
+      const events: unknown[] = [];
+      for await (const event of iterable) events.push(event);
+      return events;
+    }
+
+    it('should stream log events until the end event', async () => {
+      const end = 'event: end\ndata: {"status":"COMPLETED"}\n\n';
+      const fetchMock = vi.fn().mockResolvedValue(sse(': ping\n\n', log(1, 'Starting'), end));
+      vi.stubGlobal('fetch', fetchMock);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(collect(functions.streamLogs('exec-1'))).resolves.toEqual([
+        { type: 'log', offset: 1, message: 'Starting', timestamp: null },
+        { type: 'end', status: 'COMPLETED' },
+      ]);
+      const [url, options] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE}/api/v1/executions/exec-1/logs/stream`);
+      expect(options.headers.Accept).toBe('text/event-stream');
+    });
+
+    it('should reconnect after the last received offset', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(sse(log(1, 'one'), log(2, 'two')))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(sse(log(3, 'three'), 'event: end\ndata: {"status":"FAILED"}\n\n'));
+      vi.stubGlobal('fetch', fetchMock);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      const events = await collect(functions.streamLogs('exec-1', { reconnectDelayMs: 0 }));
+
+      expect(events.map((event) => (event as { type: string }).type)).toEqual([
+        'log',
+        'log',
+        'log',
+        'end',
+      ]);
+      const resumeUrl = `${BASE}/api/v1/executions/exec-1/logs/stream?offset=2`;
+      expect(fetchMock.mock.calls[1][0]).toBe(resumeUrl);
+      expect(fetchMock.mock.calls[2][0]).toBe(resumeUrl);
+    });
+
+    it('should give up after consecutive reconnects without events', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => sse(': ping\n\n'));
+      vi.stubGlobal('fetch', fetchMock);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(
+        collect(functions.streamLogs('exec-1', { offset: 5, reconnectDelayMs: 0, maxReconnects: 2 }))
+      ).rejects.toMatchObject({ status: 0, code: 'NETWORK_ERROR' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock.mock.calls[0][0]).toContain('?offset=5');
+    });
+
+    it('should not reconnect on client errors', async () => {
+      const fetchMock = mockFetch({ message: 'Execution not found' }, 404);
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+
+      await expect(collect(functions.streamLogs('missing'))).rejects.toMatchObject({ status: 404 });
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should stop with REQUEST_ABORTED when the signal aborts', async () => {
+      mockAbortableFetch();
+      const functions = new FunctionsModule(new HttpClient({ baseUrl: BASE }));
+      const controller = new AbortController();
+
+      const result = collect(functions.streamLogs('exec-1', { signal: controller.signal }));
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    });
+  });
 });
@@ -1,18 +1,96 @@
 import {
   createFunctionsModule,
+  encodePathSegment,
+  expectObject,
   type FunctionsModule as CoreFunctionsModule,
 } from '@mitralab.io/sdk-core';
 import { coreErrors } from '../core-errors';
-import { HttpClient } from '../utils/http-client';
-import type { FunctionExecution } from './functions.types';
+import {
+  createAbortError,
+  HttpClient,
+  MitraApiError,
+  type CallOptions,
+} from '../utils/http-client';
+import { sleep } from '../utils/sleep';
+import { parseServerSentEvents, type ServerSentEvent } from '../utils/streams';
+import type {
+  ExecutionLogEvent,
+  FunctionExecution,
+  StreamLogsOptions,
+  WaitForExecutionOptions,
+} from './functions.types';
+
+export type {
+  ExecutionLogEvent,
+  FunctionExecution,
+  StreamLogsOptions,
+  WaitForExecutionOptions,
+} from './functions.types';
+
+/** Statuses of an execution that has not finished yet. */
+const PENDING_STATUSES = new Set(['PENDING', 'RUNNING']);
+const DEFAULT_WAIT_TIMEOUT_MS = 300_000;
+
+function executionTimeout(
+  executionId: string,
+  status: string | null,
+  timeoutMs: number
+): MitraApiError {
+  return new MitraApiError(
+    `Function execution ${executionId} did not finish within ${timeoutMs}ms`,
+    0,
+    'FUNCTION_EXECUTION_TIMEOUT',
+    { executionId, status }
+  );
+}
+
+function expectExecution(value: unknown): FunctionExecution {
+  const execution = expectObject<FunctionExecution>(value, 'Function execution response', coreErrors);
+  if (typeof execution.id !== 'string' || typeof execution.status !== 'string') {
+    throw coreErrors.invalidResponse('Function execution response has an invalid id or status field');
+  }
+  if (!execution.input || typeof execution.input !== 'object') {
+    throw coreErrors.invalidResponse('Function execution response has an invalid input field');
+  }
+  return execution;
+}
 
-export type { FunctionExecution } from './functions.types';
+function parseLogEvent({ event, data }: ServerSentEvent): ExecutionLogEvent | null {
+  if (event !== 'log' && event !== 'end') return null;
+  let payload: Record<string, unknown>;
+  try {
+    payload = expectObject(JSON.parse(data), 'Execution log event', coreErrors);
+  } catch {
+    throw coreErrors.invalidResponse('Execution log event is not a JSON object');
+  }
+  if (event === 'end') {
+    if (typeof payload.status !== 'string') {
+      throw coreErrors.invalidResponse('Execution log end event has an invalid status field');
+    }
+    return { type: 'end', status: payload.status };
+  }
+  if (typeof payload.offset !== 'number' || typeof payload.message !== 'string') {
+    throw coreErrors.invalidResponse('Execution log event has an invalid offset or message field');
+  }
+  return {
+    type: 'log',
+    offset: payload.offset,
+    message: payload.message,
+    timestamp: typeof payload.timestamp === 'string' ? payload.timestamp : null,
+  };
+}
+
+/** Dropped connections and server errors are worth reconnecting after. */
+function isReconnectable(error: unknown): boolean {
+  if (!(error instanceof MitraApiError)) return true;
+  return error.code === 'NETWORK_ERROR' || error.status >= 500;
+}
 
 /** Platform SDK 1.x facade over the shared Function contract. */
 export class FunctionsModule {
   private readonly core: CoreFunctionsModule;
 
-  constructor(httpClient: HttpClient) {
+  constructor(private readonly httpClient: HttpClient) {
     this.core = createFunctionsModule(httpClient, { emptyInput: 'omit-body' }, coreErrors);
   }
 
@@ -20,8 +98,12 @@ export class FunctionsModule {
    * Executes a Function using the Platform SDK 1.x server-default invocation semantics.
    * The runtime SDK uses an explicit invocation header instead.
    */
-  async execute(functionId: string, input?: Record<string, unknown>): Promise<FunctionExecution> {
-    const execution = await this.core.execute(functionId, input);
+  async execute(
+    functionId: string,
+    input?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<FunctionExecution> {
+    const execution = await this.coreFor(options).execute(functionId, input);
     if (execution.input === null) {
       throw coreErrors.invalidResponse(
         'Function execution response has an invalid input field'
@@ -29,4 +111,267 @@ export class FunctionsModule {
     }
     return { ...execution, input: execution.input };
   }
+
+  /**
+   * Fetches the current state of an execution.
+   *
+   * @example
+   * ```typescript
+   * const execution = await mitra.functions.getExecution(executionId);
+   * console.log(execution.status);
+   * ```
+   */
+  async getExecution(executionId: string, options?: CallOptions): Promise<FunctionExecution> {
+    const client = options ? this.httpClient.withOptions(options) : this.httpClient;
+    return expectExecution(
+      await client.get<unknown>(
+        `/api/v1/executions/${encodePathSegment(executionId, 'executionId', coreErrors)}`
+      )
+    );
+  }
+
+  /**
+   * Polls an execution until it leaves the `PENDING` and `RUNNING` statuses,
+   * backing off between polls, and resolves with the final execution
+   * whatever its status.
+   *
+   * @throws {MitraApiError} With code `FUNCTION_EXECUTION_TIMEOUT` when the
+   *   execution does not finish within `timeoutMs`, or `REQUEST_ABORTED` when
+   *   `signal` aborts
+   *
+   * @example
+   * ```typescript
+   * const execution = await mitra.functions.waitForExecution(executionId, { timeoutMs: 60_000 });
+   * if (execution.status === 'COMPLETED') console.log(execution.output);
+   * ```
+   */
+  async waitForExecution(
+    executionId: string,
+    options: WaitForExecutionOptions = {}
+  ): Promise<FunctionExecution> {
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS);
+    return this.poll(executionId, options, deadline);
+  }
+
+  private async poll(
+    executionId: string,
+    options: WaitForExecutionOptions,
+    deadline: number
+  ): Promise<FunctionExecution> {
+    const {
+      intervalMs = 1000,
+      maxIntervalMs = 10_000,
+      timeoutMs = DEFAULT_WAIT_TIMEOUT_MS,
+      signal,
+    } = options;
+    let delay = intervalMs;
+    let status: string | null = null;
+
+    for (;;) {
+      let execution: FunctionExecution;
+      try {
+        // A hanging poll must not outlive the deadline either
+        execution = await this.getExecution(executionId, {
+          signal,
+          timeoutMs: Math.max(1, deadline - Date.now()),
+        });
+      } catch (error) {
+        if (!(error instanceof MitraApiError) || error.code !== 'REQUEST_TIMEOUT') throw error;
+        throw executionTimeout(executionId, status, timeoutMs);
+      }
+      status = execution.status;
+      if (!PENDING_STATUSES.has(status)) return execution;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw executionTimeout(executionId, status, timeoutMs);
+      try {
+        await sleep(Math.min(delay, remaining), signal);
+      } catch {
+        throw createAbortError();
+      }
+      delay = Math.min(delay * 1.5, maxIntervalMs);
+    }
+  }
+
+  /**
+   * Executes a Function and waits for it to complete.
+   *
+   * @returns The execution with `COMPLETED` status
+   * @throws {MitraApiError} With code `FUNCTION_EXECUTION_FAILED` and the
+   *   execution in `details` when it ends with any other status, or
+   *   `FUNCTION_EXECUTION_TIMEOUT` when it does not finish within `timeoutMs`
+   *
+   * @example
+   * ```typescript
+   * const { output } = await mitra.functions.executeAndWait('function-id', { orderId });
+   * ```
+   */
+  async executeAndWait(
+    functionId: string,
+    input?: Record<string, unknown>,
+    options: WaitForExecutionOptions = {}
+  ): Promise<FunctionExecution> {
+    const started = await this.execute(
+      functionId,
+      input,
+      options.signal && { signal: options.signal }
+    );
+    return this.settle(started, options);
+  }
+
+  /**
+   * Executes a Function synchronously and returns its output.
+   *
+   * Sends `X-Invocation-Type: sync`, so the Functions service responds once the
+   * execution finishes. If the service still returns a pending execution, the
+   * SDK polls it like {@link executeAndWait}. `timeoutMs` bounds the request
+   * and the polling together.
+   *
+   * @throws {MitraApiError} With code `FUNCTION_EXECUTION_FAILED` and the
+   *   execution in `details` when it does not complete, or
+   *   `FUNCTION_EXECUTION_TIMEOUT` when it is still pending after `timeoutMs`
+   *
+   * @example
+   * ```typescript
+   * const output = await mitra.functions.invoke('function-id', { orderId });
+   * ```
+   */
+  async invoke(
+    functionId: string,
+    input?: Record<string, unknown>,
+    options: WaitForExecutionOptions = {}
+  ): Promise<Record<string, unknown> | null> {
+    const { signal, timeoutMs } = options;
+    // One deadline covers the request and the polling after it
+    const deadline = timeoutMs === undefined ? undefined : Date.now() + timeoutMs;
+    let response: unknown;
+    try {
+      response = await this.httpClient.request<unknown>(
+        `/api/v1/functions/${encodePathSegment(functionId, 'functionId', coreErrors)}/execute`,
+        {
+          method: 'POST',
+          headers: { 'X-Invocation-Type': 'sync' },
+          body: input === undefined ? undefined : { input },
+          signal,
+          timeoutMs,
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof MitraApiError) || error.code !== 'REQUEST_TIMEOUT') throw error;
+      throw new MitraApiError(
+        `Function ${functionId} did not finish within ${timeoutMs}ms`,
+        0,
+        'FUNCTION_EXECUTION_TIMEOUT',
+        { functionId }
+      );
+    }
+    const started = expectExecution(response);
+    return (await this.settle(started, options, deadline)).output;
+  }
+
+  /**
+   * Streams the logs of an execution as they are written, over Server-Sent Events.
+   *
+   * Yields `log` events in order and finishes with one `end` event carrying the
+   * final status. When the connection drops, the stream reconnects after the
+   * last received offset, so no line is repeated or lost.
+   *
+   * @throws {MitraApiError} When the stream cannot be opened, after
+   *   `maxReconnects` failed reconnects, or with code `REQUEST_ABORTED` when
+   *   `signal` aborts
+   *
+   * @example
+   * ```typescript
+   * for await (const event of mitra.functions.streamLogs(execution.id)) {
+   *   if (event.type === 'log') console.log(event.message);
+   *   else console.log('Finished with', event.status);
+   * }
+   * ```
+   */
+  async *streamLogs(
+    executionId: string,
+    options: StreamLogsOptions = {}
+  ): AsyncGenerator<ExecutionLogEvent, void, undefined> {
+    const { signal, reconnectDelayMs = 1000, maxReconnects = 5 } = options;
+    const path = `/api/v1/executions/${encodePathSegment(
+      executionId,
+      'executionId',
+      coreErrors
+    )}/logs/stream`;
+    let offset = options.offset;
+    let reconnects = 0;
+
+    for (;;) {
+      let failure: unknown;
+      try {
+        const body = await this.httpClient.stream(path, {
+          headers: { Accept: 'text/event-stream' },
+          params: { offset },
+          signal,
+        });
+        for await (const message of parseServerSentEvents(body)) {
+          const event = parseLogEvent(message);
+          if (!event) continue;
+          reconnects = 0;
+          if (event.type === 'log') offset = event.offset;
+          yield event;
+          if (event.type === 'end') return;
+        }
+      } catch (error) {
+        if (signal?.aborted) throw createAbortError();
+        if (!isReconnectable(error)) throw error;
+        failure = error;
+      }
+
+      if (++reconnects > maxReconnects) {
+        throw failure instanceof MitraApiError
+          ? failure
+          : new MitraApiError(
+              'Execution log stream closed before the execution finished',
+              0,
+              'NETWORK_ERROR'
+            );
+      }
+      try {
+        await sleep(reconnectDelayMs, signal);
+      } catch {
+        throw createAbortError();
+      }
+    }
+  }
+
+  /** Waits for a started execution if needed and requires it to complete. */
+  private async settle(
+    started: FunctionExecution,
+    options: WaitForExecutionOptions,
+    deadline = Date.now() + (options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS)
+  ): Promise<FunctionExecution> {
+    let execution = started;
+    if (PENDING_STATUSES.has(started.status)) {
+      if (Date.now() >= deadline) {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+        throw executionTimeout(started.id, started.status, timeoutMs);
+      }
+      execution = await this.poll(started.id, options, deadline);
+    }
+    if (execution.status !== 'COMPLETED') {
+      throw new MitraApiError(
+        execution.errorMessage ?? `Function execution ended with status ${execution.status}`,
+        0,
+        'FUNCTION_EXECUTION_FAILED',
+        execution
+      );
+    }
+    return execution;
+  }
+
+  private coreFor(options?: CallOptions): CoreFunctionsModule {
+    return options
+      ? createFunctionsModule(
+          this.httpClient.withOptions(options),
+          { emptyInput: 'omit-body' },
+          coreErrors
+        )
+      : this.core;
+  }
 }
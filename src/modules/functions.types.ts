@@ -25,3 +25,48 @@ export interface FunctionExecution {
   /** When the execution record was created (ISO 8601). */
   createdAt: string;
 }
+
+/** Options for waiting on a Function execution. */
+export interface WaitForExecutionOptions {
+  /** Initial delay between polls, in milliseconds (default: 1000). */
+  intervalMs?: number;
+  /** Upper bound for the delay between polls, which grows by half on each poll (default: 10 000). */
+  maxIntervalMs?: number;
+  /**
+   * How long to wait for a final status, in milliseconds (default: 300 000).
+   * The wait then fails with code `FUNCTION_EXECUTION_TIMEOUT`.
+   */
+  timeoutMs?: number;
+  /** Stops waiting; the call rejects with code `REQUEST_ABORTED`. */
+  signal?: AbortSignal;
+}
+
+/** Event yielded by `functions.streamLogs`. */
+export type ExecutionLogEvent =
+  | {
+      type: 'log';
+      /** Position of the entry in the execution log, used to resume the stream. */
+      offset: number;
+      /** Log line written by the Function. */
+      message: string;
+      /** When the line was written (ISO 8601), if reported. */
+      timestamp: string | null;
+    }
+  | {
+      /** Last event of the stream, sent once the execution finishes. */
+      type: 'end';
+      /** Final execution status, e.g. `COMPLETED` or `FAILED`. */
+      status: string;
+    };
+
+/** Options for streaming execution logs. */
+export interface StreamLogsOptions {
+  /** Resume after this log offset instead of streaming from the beginning. */
+  offset?: number;
+  /** Closes the stream; iteration rejects with code `REQUEST_ABORTED`. */
+  signal?: AbortSignal;
+  /** Delay before reconnecting after the connection drops, in milliseconds (default: 1000). */
+  reconnectDelayMs?: number;
+  /** Consecutive reconnects without receiving an event before giving up (default: 5). */
+  maxReconnects?: number;
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { IntegrationModule } from './integration';
 import { HttpClient } from '../utils/http-client';
-import { mockFetch } from '../test-utils';
+import { mockAbortableFetch, mockFetch } from '../test-utils';
 
 const BASE = 'https://api.mitra.io/integration';
 
@@ -67,4 +67,21 @@ describe('IntegrationModule', () => {
     expect(body.body).toEqual({ item: 'test' });
     expect(body.source).toBe('SDK');
   });
+
+  it('should abort proxied requests through the call options', async () => {
+    mockAbortableFetch();
+    const integration = new IntegrationModule(new HttpClient({ baseUrl: BASE }));
+    const controller = new AbortController();
+
+    const execution = integration.execute(
+      'config-1',
+      { method: 'GET', endpoint: '/users' },
+      { signal: controller.signal }
+    );
+    const resource = integration.executeResource('res-1', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(execution).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    await expect(resource).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+  });
 });
@@ -3,7 +3,7 @@ import {
   type IntegrationModule as CoreIntegrationModule,
 } from '@mitralab.io/sdk-core';
 import { coreErrors } from '../core-errors';
-import { HttpClient } from '../utils/http-client';
+import { HttpClient, type CallOptions } from '../utils/http-client';
 import type { ProxyInput, ProxyResult } from './integration.types';
 
 export type { ProxyInput, ProxyResult } from './integration.types';
@@ -12,15 +12,25 @@ export type { ProxyInput, ProxyResult } from './integration.types';
 export class IntegrationModule {
   private readonly core: CoreIntegrationModule;
 
-  constructor(httpClient: HttpClient) {
+  constructor(private readonly httpClient: HttpClient) {
     this.core = createIntegrationModule(httpClient, coreErrors);
   }
 
-  executeResource(resourceId: string, params?: Record<string, unknown>): Promise<ProxyResult> {
-    return this.core.executeResource(resourceId, params);
+  executeResource(
+    resourceId: string,
+    params?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<ProxyResult> {
+    return this.coreFor(options).executeResource(resourceId, params);
   }
 
-  execute(configId: string, request: ProxyInput): Promise<ProxyResult> {
-    return this.core.execute(configId, request);
+  execute(configId: string, request: ProxyInput, options?: CallOptions): Promise<ProxyResult> {
+    return this.coreFor(options).execute(configId, request);
+  }
+
+  private coreFor(options?: CallOptions): CoreIntegrationModule {
+    return options
+      ? createIntegrationModule(this.httpClient.withOptions(options), coreErrors)
+      : this.core;
   }
 }
@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mockBroadcastChannel, mockLocks, mockWindow } from '../test-utils';
+import { MitraApiError } from '../utils/http-client';
+import { createMemoryStorage } from '../utils/storage';
+import { OfflineQueue, type QueuedMutation } from './offline';
+
+const networkError = () => new MitraApiError('Network request failed', 0, 'NETWORK_ERROR');
+const update = (recordId: string) => ({ table: 'Task', type: 'update' as const, recordId });
+
+function createQueue(options: ConstructorParameters<typeof OfflineQueue>[0] = {}) {
+  const storage = createMemoryStorage();
+  const send = vi.fn<(mutation: QueuedMutation) => Promise<unknown>>();
+  const queue = new OfflineQueue(
+    typeof options === 'object' ? { storage, ...options } : options,
+    'queue'
+  );
+  queue.start(send);
+  return { queue, send, storage };
+}
+
+describe('OfflineQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send directly when disabled', async () => {
+    const { queue, send } = createQueue(false);
+    const direct = vi.fn().mockRejectedValue(networkError());
+
+    await expect(queue.run(update('1'), direct)).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(queue.status).toEqual({ pending: 0, replaying: false });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should queue after a network error and resolve once replayed', async () => {
+    const { queue, send, storage } = createQueue();
+    const statuses: unknown[] = [];
+    queue.onStatusChange((status) => statuses.push(status));
+
+    const first = queue.run(update('1'), () => Promise.reject(networkError()));
+    await vi.waitFor(() => expect(queue.status.pending).toBe(1));
+    const direct = vi.fn();
+    const second = queue.run(update('2'), direct);
+    await vi.waitFor(() => expect(queue.status.pending).toBe(2));
+
+    expect(direct).not.toHaveBeenCalled();
+    expect(JSON.parse(storage.getItem('queue') as string)).toMatchObject([
+      { table: 'Task', type: 'update', recordId: '1' },
+      { recordId: '2' },
+    ]);
+
+    send.mockImplementation(async (mutation) => ({ id: mutation.recordId }));
+    await queue.replay();
+
+    await expect(first).resolves.toEqual({ id: '1' });
+    await expect(second).resolves.toEqual({ id: '2' });
+    expect(send.mock.calls.map(([mutation]) => mutation.recordId)).toEqual(['1', '2']);
+    expect(storage.getItem('queue')).toBe('[]');
+    expect(statuses).toContainEqual({ pending: 2, replaying: true });
+    expect(statuses.at(-1)).toEqual({ pending: 0, replaying: false });
+  });
+
+  it('should queue without a request while the browser is offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    const { queue, send } = createQueue();
+    const direct = vi.fn();
+
+    void queue.run(update('1'), direct);
+    await vi.waitFor(() => expect(queue.status.pending).toBe(1));
+    await queue.replay();
+
+    expect(direct).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should report conflicts, drop them, and stop at server errors', async () => {
+    const onConflict = vi.fn();
+    const { queue, send } = createQueue({ onConflict });
+    const conflict = new MitraApiError('Record changed', 409);
+    const results = ['1', '2', '3'].map((id) =>
+      queue.run(update(id), () => Promise.reject(networkError())).catch((error: unknown) => error)
+    );
+    await vi.waitFor(() => expect(queue.status.pending).toBe(3));
+
+    send
+      .mockRejectedValueOnce(conflict)
+      .mockRejectedValueOnce(new MitraApiError('Unavailable', 503))
+      .mockResolvedValue({});
+    await queue.replay();
+
+    expect(onConflict).toHaveBeenCalledWith({
+      mutation: expect.objectContaining({ recordId: '1' }),
+      error: conflict,
+    });
+    await expect(results[0]).resolves.toBe(conflict);
+    expect(queue.pending.map((mutation) => mutation.recordId)).toEqual(['2', '3']);
+
+    await queue.replay();
+    expect(queue.status.pending).toBe(0);
+  });
+
+  it('should restore the persisted queue and replay it when the browser reconnects', async () => {
+    const window = mockWindow();
+    const storage = createMemoryStorage();
+    storage.setItem('queue', JSON.stringify([{ id: 'a', ...update('1'), queuedAt: 1 }]));
+    const send = vi.fn().mockResolvedValue({});
+    const queue = new OfflineQueue({ storage }, 'queue');
+
+    queue.start(send);
+    window.dispatch('online', {});
+
+    await vi.waitFor(() => expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' })));
+    await vi.waitFor(() => expect(queue.status.pending).toBe(0));
+    queue.dispose();
+    expect(window.removeEventListener).toHaveBeenCalledWith('online', expect.any(Function));
+  });
+
+  it('should retry mutations that failed while the browser reports being online', async () => {
+    vi.useFakeTimers();
+    const { queue, send } = createQueue();
+    send.mockRejectedValueOnce(networkError()).mockResolvedValue({ id: '1' });
+
+    const result = queue.run(update('1'), () => Promise.reject(networkError()));
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(send).toHaveBeenCalledOnce();
+    expect(queue.status.pending).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    await expect(result).resolves.toEqual({ id: '1' });
+    expect(send).toHaveBeenCalledTimes(2);
+    queue.dispose();
+  });
+
+  it('should share the queue between tabs and settle calls made in another tab', async () => {
+    mockWindow();
+    mockBroadcastChannel();
+    mockLocks();
+    const storage = createMemoryStorage();
+    const send = vi.fn(async (mutation: QueuedMutation) => ({ id: mutation.recordId }));
+    const tabs = [new OfflineQueue({ storage }, 'queue'), new OfflineQueue({ storage }, 'queue')];
+    tabs.forEach((tab) => tab.start(send));
+
+    const results = tabs.map((tab, index) =>
+      tab.run(update(String(index + 1)), () => Promise.reject(networkError()))
+    );
+    await vi.waitFor(() => expect(JSON.parse(storage.getItem('queue') as string)).toHaveLength(2));
+    await vi.waitFor(() => expect(tabs[1].status.pending).toBe(2));
+    await Promise.all(tabs.map((tab) => tab.replay()));
+
+    await expect(results[0]).resolves.toEqual({ id: '1' });
+    await expect(results[1]).resolves.toEqual({ id: '2' });
+    expect(send.mock.calls.map(([mutation]) => mutation.recordId)).toEqual(['1', '2']);
+    expect(storage.getItem('queue')).toBe('[]');
+    tabs.forEach((tab) => tab.dispose());
+  });
+
+  it('should hold mutations while signed out and discard them for another user', async () => {
+    const onConflict = vi.fn();
+    const { queue, send, storage } = createQueue({ onConflict });
+    queue.setUser('u1');
+    const result = queue
+      .run(update('1'), () => Promise.reject(networkError()))
+      .catch((error: unknown) => error);
+    await vi.waitFor(() => expect(queue.status.pending).toBe(1));
+
+    queue.setUser(null);
+    expect(queue.status.pending).toBe(0);
+    await queue.replay();
+    expect(send).not.toHaveBeenCalled();
+    expect(JSON.parse(storage.getItem('queue') as string)).toMatchObject([{ userId: 'u1' }]);
+
+    queue.setUser('u2');
+    await expect(result).resolves.toMatchObject({ code: 'MUTATION_DISCARDED' });
+    expect(onConflict).toHaveBeenCalledWith({
+      mutation: expect.objectContaining({ recordId: '1', userId: 'u1' }),
+      error: expect.objectContaining({ code: 'MUTATION_DISCARDED' }),
+    });
+    expect(storage.getItem('queue')).toBe('[]');
+    expect(send).not.toHaveBeenCalled();
+    queue.dispose();
+  });
+});
@@ -0,0 +1,412 @@
+import { MitraApiError } from '../utils/http-client';
+import { createIndexedDBStorage, type StorageAdapter } from '../utils/storage';
+import { createTabSync, type TabSync } from '../utils/tab-sync';
+import type {
+  MutationConflict,
+  OfflineOptions,
+  OfflineQueueStatus,
+  OfflineQueueStatusCallback,
+  QueuedMutation,
+} from './offline.types';
+
+export type {
+  MutationConflict,
+  OfflineOptions,
+  OfflineQueueStatus,
+  OfflineQueueStatusCallback,
+  QueuedMutation,
+} from './offline.types';
+
+/** Mutation to queue, before the queue assigns its ID and timestamp. @internal */
+export type MutationRequest = Omit<QueuedMutation, 'id' | 'queuedAt' | 'userId'>;
+
+const RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/** Outcome of a replayed mutation, sent to the tab that queued it. */
+interface SettledMessage {
+  type: 'settled';
+  id: string;
+  result?: unknown;
+  error?: { message: string; status: number; code?: string; details?: unknown };
+}
+
+type OfflineMessage = { type: 'changed' } | SettledMessage;
+
+interface Waiter {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function isNetworkError(error: unknown): boolean {
+  return error instanceof MitraApiError && error.code === 'NETWORK_ERROR';
+}
+
+// Client errors that retrying cannot fix; 401, 408, and 429 may succeed later
+function isConflict(error: unknown): error is MitraApiError {
+  return (
+    error instanceof MitraApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    ![401, 408, 429].includes(error.status)
+  );
+}
+
+function discarded(mutation: QueuedMutation): MitraApiError {
+  return new MitraApiError(
+    'Queued mutation was discarded because another user signed in',
+    0,
+    'MUTATION_DISCARDED',
+    { mutationId: mutation.id, userId: mutation.userId ?? null }
+  );
+}
+
+function parseQueue(stored: string | null): QueuedMutation[] {
+  if (!stored) return [];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? (parsed as QueuedMutation[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Queue of entity mutations made while the browser is offline.
+ *
+ * Mutations are persisted in order and replayed when the browser reconnects,
+ * after `init()`, or on `replay()`. While the queue is not empty, new
+ * mutations are queued behind it so the server receives them in order.
+ *
+ * Every tab of the app shares the persisted queue: changes re-read storage
+ * under a cross-tab lock, and only one tab replays at a time. Mutations belong
+ * to the user who queued them and are only sent with that user's session.
+ */
+export class OfflineQueue {
+  /** Whether mutations are queued. `false` unless the client was created with `offline`. */
+  readonly enabled: boolean;
+  private readonly storage: StorageAdapter;
+  private readonly onConflict?: (conflict: MutationConflict) => void;
+  private readonly listeners = new Set<OfflineQueueStatusCallback>();
+  private readonly waiters = new Map<string, Waiter>();
+  // Every persisted mutation, including those of other users
+  private mutations: QueuedMutation[] = [];
+  private userId: string | null = null;
+  private ready: Promise<void> = Promise.resolve();
+  private queueUpdate: Promise<void> = Promise.resolve();
+  private replaying?: Promise<void>;
+  private send?: (mutation: QueuedMutation) => Promise<unknown>;
+  private tabSync: TabSync<OfflineMessage> | null = null;
+  private replayLock: TabSync<never> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelayMs = RETRY_DELAY_MS;
+  // Tells apart the IDs of mutations queued by different tabs in the same millisecond
+  private readonly tabId = Math.random().toString(36).slice(2, 8);
+  private sequence = 0;
+  private readonly onOnline = () => {
+    void this.replay();
+  };
+
+  constructor(
+    options: OfflineOptions | boolean = false,
+    private readonly storageKey = 'mitra_offline_mutations'
+  ) {
+    const config = typeof options === 'object' ? options : {};
+    this.enabled = options !== false;
+    this.storage = config.storage ?? createIndexedDBStorage();
+    this.onConflict = config.onConflict;
+  }
+
+  /** Number of queued mutations and whether they are being replayed. */
+  get status(): OfflineQueueStatus {
+    return { pending: this.own().length, replaying: this.replaying !== undefined };
+  }
+
+  /** The queued mutations of the signed-in user, oldest first. */
+  get pending(): readonly QueuedMutation[] {
+    return this.own();
+  }
+
+  /**
+   * Loads the persisted queue and replays it on every reconnect, sending
+   * mutations with `send`.
+   * @internal
+   */
+  start(send: (mutation: QueuedMutation) => Promise<unknown>): void {
+    if (!this.enabled || this.send) return;
+    this.send = send;
+    this.tabSync = createTabSync<OfflineMessage>(this.storageKey, (message) =>
+      this.onMessage(message)
+    );
+    this.replayLock = createTabSync<never>(`${this.storageKey}:replay`, () => undefined);
+    this.ready = this.load();
+    if (typeof window !== 'undefined') window.addEventListener('online', this.onOnline);
+  }
+
+  /**
+   * Sets the user whose mutations are queued and replayed. When another user
+   * signs in, mutations queued by anyone else are discarded and reported to
+   * `onConflict`; while signed out, they are kept for the same user.
+   * @internal
+   */
+  setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.notify();
+    if (!this.enabled || !this.send || userId === null) return;
+    void this.ready.then(async () => {
+      await this.discardOtherUsers();
+      if (this.own().length > 0) await this.replay();
+    });
+  }
+
+  /**
+   * Sends a mutation right away, or queues it while the browser is offline,
+   * a request fails with `NETWORK_ERROR`, or earlier mutations are queued.
+   * A queued mutation resolves once it is replayed; one queued while the
+   * browser reports being online is retried with backoff.
+   * @internal
+   */
+  async run<R>(mutation: MutationRequest, send: () => Promise<R>): Promise<R> {
+    if (!this.enabled || !this.send) return send();
+    await this.ready;
+    if (this.own().length === 0 && !isOffline()) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+    const queued = this.enqueue(mutation);
+    // No `online` event follows when the browser already reports being online
+    if (!isOffline()) this.scheduleRetry();
+    return queued as Promise<R>;
+  }
+
+  /**
+   * Sends the queued mutations in order. Stops at the first network or server
+   * error and keeps the remaining mutations; client errors are reported to
+   * `onConflict` and dropped.
+   */
+  replay(): Promise<void> {
+    if (!this.enabled || !this.send) return Promise.resolve();
+    this.replaying ??= this.drain(this.send).finally(() => {
+      this.replaying = undefined;
+      this.notify();
+    });
+    return this.replaying;
+  }
+
+  /**
+   * Registers a callback for queue status changes, for pending-changes badges.
+   *
+   * Called immediately with the current status, then on every change.
+   *
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```typescript
+   * const unsub = mitra.offline.onStatusChange(({ pending }) => {
+   *   badge.textContent = pending > 0 ? `${pending} unsaved` : '';
+   * });
+   * ```
+   */
+  onStatusChange(callback: OfflineQueueStatusCallback): () => void {
+    this.listeners.add(callback);
+    callback(this.status);
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /** Stops replaying on reconnect. Call when discarding the client. */
+  dispose(): void {
+    if (typeof window !== 'undefined') window.removeEventListener('online', this.onOnline);
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.tabSync?.close();
+    this.replayLock?.close();
+  }
+
+  private own(): QueuedMutation[] {
+    return this.mutations.filter((mutation) => (mutation.userId ?? null) === this.userId);
+  }
+
+  private async load(): Promise<void> {
+    this.mutations = await this.read();
+    if (this.userId !== null) await this.discardOtherUsers();
+    if (this.own().length > 0) this.notify();
+  }
+
+  private async read(): Promise<QueuedMutation[]> {
+    try {
+      return parseQueue(await this.storage.getItem(this.storageKey));
+    } catch {
+      return this.mutations;
+    }
+  }
+
+  /**
+   * Applies `change` to the queue as currently stored, then persists it. Runs
+   * one change at a time in this tab and under a lock shared with other tabs,
+   * so no tab overwrites mutations it has not seen.
+   */
+  private update(change: (mutations: QueuedMutation[]) => QueuedMutation[]): Promise<void> {
+    const task = async () => {
+      const mutations = change(await this.read());
+      this.mutations = mutations;
+      try {
+        await this.storage.setItem(this.storageKey, JSON.stringify(mutations));
+      } catch {
+        // Storage might be full or disabled
+      }
+      this.tabSync?.post({ type: 'changed' });
+      this.notify();
+    };
+    const run = () => (this.tabSync ? this.tabSync.withLock(task) : task());
+    const updated = this.queueUpdate.then(run, run);
+    this.queueUpdate = updated.catch(() => undefined);
+    return updated;
+  }
+
+  private enqueue(request: MutationRequest): Promise<unknown> {
+    const mutation: QueuedMutation = {
+      ...request,
+      id: `${Date.now().toString(36)}-${this.tabId}-${(this.sequence++).toString(36)}`,
+      queuedAt: Date.now(),
+      userId: this.userId,
+    };
+    const settled = new Promise((resolve, reject) =>
+      this.waiters.set(mutation.id, { resolve, reject })
+    );
+    void this.update((mutations) => [...mutations, mutation]);
+    return settled;
+  }
+
+  private async discardOtherUsers(): Promise<void> {
+    const userId = this.userId;
+    const dropped: QueuedMutation[] = [];
+    await this.update((mutations) =>
+      mutations.filter((mutation) => {
+        const keep = (mutation.userId ?? null) === userId;
+        if (!keep) dropped.push(mutation);
+        return keep;
+      })
+    );
+    dropped.forEach((mutation) => this.reject(mutation, discarded(mutation)));
+  }
+
+  private async drain(send: (mutation: QueuedMutation) => Promise<unknown>): Promise<void> {
+    await this.ready;
+    this.notify();
+    const task = () => this.drainLocked(send);
+    await (this.replayLock ? this.replayLock.withLock(task) : task());
+    if (this.own().length === 0) {
+      this.retryDelayMs = RETRY_DELAY_MS;
+    } else if (!isOffline()) {
+      this.scheduleRetry();
+    }
+  }
+
+  private async drainLocked(send: (mutation: QueuedMutation) => Promise<unknown>): Promise<void> {
+    while (!isOffline()) {
+      // Another tab may have replayed or queued mutations since the last read
+      this.mutations = await this.read();
+      const [mutation] = this.own();
+      if (!mutation) return;
+      try {
+        const result = await send(mutation);
+        await this.remove(mutation);
+        this.settle(mutation, { result });
+      } catch (error) {
+        if (!isConflict(error)) return;
+        await this.remove(mutation);
+        this.reject(mutation, error);
+      }
+    }
+  }
+
+  private remove(mutation: QueuedMutation): Promise<void> {
+    return this.update((mutations) => mutations.filter((queued) => queued.id !== mutation.id));
+  }
+
+  private reject(mutation: QueuedMutation, error: MitraApiError): void {
+    this.settle(mutation, { error });
+    try {
+      this.onConflict?.({ mutation, error });
+    } catch (listenerError) {
+      console.error('Offline conflict callback error:', listenerError);
+    }
+  }
+
+  // Settles the call that queued the mutation, whichever tab it was made in
+  private settle(
+    mutation: QueuedMutation,
+    outcome: { result?: unknown; error?: MitraApiError }
+  ): void {
+    const waiter = this.waiters.get(mutation.id);
+    this.waiters.delete(mutation.id);
+    const { result, error } = outcome;
+    if (waiter) {
+      if (error) waiter.reject(error);
+      else waiter.resolve(result);
+      return;
+    }
+    this.tabSync?.post({
+      type: 'settled',
+      id: mutation.id,
+      result,
+      error: error && {
+        message: error.message,
+        status: error.status,
+        code: error.code,
+        details: error.details,
+      },
+    });
+  }
+
+  private onMessage(message: OfflineMessage): void {
+    if (message.type === 'changed') {
+      void this.read().then((mutations) => {
+        this.mutations = mutations;
+        this.notify();
+      });
+      return;
+    }
+    const waiter = this.waiters.get(message.id);
+    if (!waiter) return;
+    this.waiters.delete(message.id);
+    const { error } = message;
+    if (error) {
+      waiter.reject(new MitraApiError(error.message, error.status, error.code, error.details));
+    } else {
+      waiter.resolve(message.result);
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null) return;
+    const delay = this.retryDelayMs;
+    this.retryDelayMs = Math.min(delay * 2, MAX_RETRY_DELAY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.replay();
+    }, delay);
+  }
+
+  private notify(): void {
+    const status = this.status;
+    this.listeners.forEach((callback) => {
+      try {
+        callback(status);
+      } catch (error) {
+        console.error('Offline status listener error:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import type { MitraApiError } from '../utils/http-client';
+import type { StorageAdapter } from '../utils/storage';
+
+/** Options for queueing entity mutations while the browser is offline. */
+export interface OfflineOptions {
+  /**
+   * Storage for the queued mutations, so they survive a page reload.
+   * Defaults to IndexedDB, or memory where IndexedDB is not available.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Called when the server rejects a replayed mutation with a client error
+   * such as 404 or 409, or discards it because another user signed in. The
+   * mutation is dropped from the queue.
+   */
+  onConflict?: (conflict: MutationConflict) => void;
+}
+
+/** Entity mutation waiting in the offline queue. */
+export interface QueuedMutation {
+  /** Queue entry ID. */
+  id: string;
+  /** Table the mutation targets. */
+  table: string;
+  type: 'create' | 'update' | 'delete';
+  /** ID of the updated or deleted record. */
+  recordId?: string;
+  /** Record data of a `create` or `update`. */
+  data?: unknown;
+  /** When the mutation was queued, in epoch milliseconds. */
+  queuedAt: number;
+  /** ID of the user who queued the mutation, or null when signed out. */
+  userId?: string | null;
+}
+
+/** A replayed mutation that the server rejected, or that was discarded. */
+export interface MutationConflict {
+  mutation: QueuedMutation;
+  error: MitraApiError;
+}
+
+/** Snapshot of the offline queue for status indicators. */
+export interface OfflineQueueStatus {
+  /** Number of mutations waiting to be sent. */
+  pending: number;
+  /** Whether queued mutations are being sent right now. */
+  replaying: boolean;
+}
+
+/** Callback for offline queue status changes. */
+export type OfflineQueueStatusCallback = (status: OfflineQueueStatus) => void;
@@ -1,12 +1,41 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { mockFetch } from '../test-utils';
+import { createByteStream, mockAbortableFetch, mockFetch, mockFetchSequence } from '../test-utils';
 import { HttpClient } from '../utils/http-client';
+import { QueryCache } from '../utils/query-cache';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
 import { QueriesModule } from './queries';
 
 const BASE = 'https://api.mitra.io/data-manager';
 const response = { rows: [{ id: 1 }], durationMs: 3 };
 const result = { ...response, affectedRows: null };
 
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+function createQueries() {
+  const queries = new QueriesModule(new HttpClient({ baseUrl: BASE }));
+  queries.setDataSourceId('ds-123');
+  return queries;
+}
+
+function schema<I, O>(check: (value: unknown) => O | undefined): StandardSchemaV1<I, O> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate(value) {
+        const output = check(value);
+        return output === undefined
+          ? { issues: [{ message: 'Invalid', path: ['status'] }] }
+          : { value: output };
+      },
+    },
+  };
+}
+
 describe('QueriesModule compatibility facade', () => {
   afterEach(() => {
     vi.unstubAllGlobals();
@@ -52,4 +81,171 @@ describe('QueriesModule compatibility facade', () => {
       code: 'INVALID_RESPONSE',
     });
   });
+
+  it('caches results per query and parameters when the cache is enabled', async () => {
+    const fetchMock = mockFetch(response);
+    const cache = new QueryCache(true);
+    const queries = new QueriesModule(new HttpClient({ baseUrl: BASE }), cache);
+    queries.setDataSourceId('ds-123');
+
+    await Promise.all([
+      queries.execute('report', { year: 2024 }),
+      queries.execute('report', { year: 2024 }),
+    ]);
+    await queries.execute('report', { year: 2025 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    cache.invalidateQuery('report');
+    await expect(queries.execute('report', { year: 2024 })).resolves.toEqual(result);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out a query execution through the call options', async () => {
+    vi.useFakeTimers();
+    mockAbortableFetch();
+    const queries = new QueriesModule(new HttpClient({ baseUrl: BASE }));
+    queries.setDataSourceId('ds-123');
+
+    const execution = queries.execute('query-id', {}, { timeoutMs: 1000 });
+    const assertion = expect(execution).rejects.toMatchObject({ code: 'REQUEST_TIMEOUT' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+    vi.useRealTimers();
+  });
+
+  it('defines typed queries that validate parameters and rows', async () => {
+    const fetchMock = mockFetch(response);
+    const queries = new QueriesModule(new HttpClient({ baseUrl: BASE }));
+    queries.setDataSourceId('ds-123');
+    const report = queries.defineQuery('report', {
+      params: schema<{ status: string }, { status: string }>((value) => {
+        const { status } = value as { status?: unknown };
+        return typeof status === 'string' ? { status: status.toUpperCase() } : undefined;
+      }),
+      rows: schema<unknown, { id: string }>((value) => ({
+        id: String((value as { id: number }).id),
+      })),
+    });
+
+    const { rows } = await report.execute({ status: 'open' });
+    expect(rows).toEqual([{ id: '1' }]);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).parameters).toEqual({ status: 'OPEN' });
+
+    await expect(report.execute({ status: 1 } as never)).rejects.toMatchObject({
+      code: 'SCHEMA_MISMATCH',
+      message: 'Input for query report does not match its schema: Invalid at status',
+      details: { query: 'report', source: 'input' },
+    });
+    expect(fetchMock).toHaveBeenCalledOnce();
+    // @ts-expect-error status is a required parameter
+    void report.execute({}).catch(() => undefined);
+  });
+
+  it('makes parameters optional for queries without required parameters', async () => {
+    const fetchMock = mockFetch(response);
+    const queries = new QueriesModule(new HttpClient({ baseUrl: BASE }));
+    queries.setDataSourceId('ds-123');
+    const recent = queries.defineQuery<{ limit?: number }, { id: number }>('recent');
+
+    const { rows } = await recent.execute();
+    expect(rows[0].id).toBe(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).parameters).toEqual({});
+  });
+
+  it('pages through results with limit and skip until the last page', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { rows: [{ id: 1 }, { id: 2 }], total: 3, durationMs: 1 } },
+      { body: { rows: [{ id: 3 }], total: 3, durationMs: 1 } },
+    ]);
+    const queries = createQueries();
+
+    const pages = await collect(queries.executePaged('orders', { year: 2024 }, { pageSize: 2 }));
+
+    expect(pages).toEqual([
+      { rows: [{ id: 1 }, { id: 2 }], total: 3, hasMore: true, nextSkip: 2 },
+      { rows: [{ id: 3 }], total: 3, hasMore: false, nextSkip: null },
+    ]);
+    expect(fetchMock.mock.calls[0][0]).toBe(`${BASE}/api/v1/custom-queries/orders/execute`);
+    expect(fetchMock.mock.calls.map(([, options]) => JSON.parse(options.body))).toEqual([
+      { dataSourceId: 'ds-123', parameters: { year: 2024 }, limit: 2, skip: 0 },
+      { dataSourceId: 'ds-123', parameters: { year: 2024 }, limit: 2, skip: 2 },
+    ]);
+  });
+
+  it('uses the server paging fields and stops on a short page without a total', async () => {
+    const fetchMock = mockFetchSequence([
+      { body: { rows: [{ id: 1 }], hasMore: true, nextSkip: 10 } },
+      { body: { rows: [{ id: 2 }] } },
+    ]);
+    const queries = createQueries();
+
+    const pages = await collect(queries.executePaged('orders', {}, { pageSize: 2, skip: 5 }));
+
+    expect(pages.map(({ total, hasMore, nextSkip }) => [total, hasMore, nextSkip])).toEqual([
+      [null, true, 10],
+      [null, false, null],
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).skip).toBe(10);
+    await expect(
+      collect(queries.executePaged('orders', {}, { pageSize: 0 }))
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIGURATION' });
+    await expect(
+      collect(new QueriesModule(new HttpClient({ baseUrl: BASE })).executePaged('orders'))
+    ).rejects.toMatchObject({ code: 'INVALID_CONFIGURATION' });
+  });
+
+  it('streams rows and the total from newline-delimited JSON', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: createByteStream(['{"total":2}\n{"row":{"id":1}}\n\n{"ro', 'w":{"id":2}}\n']),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const onTotal = vi.fn();
+    const queries = createQueries();
+
+    const rows = await collect(queries.executeStream('orders', { year: 2024 }, { onTotal }));
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(onTotal).toHaveBeenCalledWith(2);
+    const [url, options] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE}/api/v1/custom-queries/orders/stream`);
+    expect(options.headers.Accept).toBe('application/x-ndjson');
+    expect(JSON.parse(options.body)).toEqual({
+      dataSourceId: 'ds-123',
+      parameters: { year: 2024 },
+    });
+  });
+
+  it('rejects malformed stream lines and validates streamed rows of typed queries', async () => {
+    const stream = (...chunks: string[]) => ({
+      ok: true,
+      status: 200,
+      body: createByteStream(chunks),
+    });
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(stream('{"row":{"id":1}}\nnot json\n'))
+        .mockResolvedValueOnce(stream('{"row":{"id":1}}\n'))
+    );
+    const queries = createQueries();
+    const rows: unknown[] = [];
+
+    await expect(
+      (async () => {
+        for await (const row of queries.executeStream('orders')) rows.push(row);
+      })()
+    ).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    expect(rows).toEqual([{ id: 1 }]);
+
+    const orders = queries.defineQuery('orders', {
+      rows: schema<unknown, { id: string }>((value) => ({
+        id: String((value as { id: number }).id),
+      })),
+    });
+    await expect(collect(orders.executeStream())).resolves.toEqual([{ id: '1' }]);
+  });
 });
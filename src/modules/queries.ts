@@ -1,29 +1,276 @@
 import {
   createQueriesModule,
+  encodePathSegment,
+  expectObject,
   type QueriesModule as CoreQueriesModule,
 } from '@mitralab.io/sdk-core';
 import { coreErrors } from '../core-errors';
-import { HttpClient } from '../utils/http-client';
-import type { QueryResult } from './queries.types';
+import { createAbortError, HttpClient, type CallOptions } from '../utils/http-client';
+import { QueryCache, queryCacheKey } from '../utils/query-cache';
+import { readLines } from '../utils/streams';
+import { validateRecord, validateRecords } from './entity-schema';
+import type {
+  QueryArguments,
+  QueryDefinitionOptions,
+  QueryPage,
+  QueryPageOptions,
+  QueryResult,
+  QueryStreamOptions,
+  TypedQuery,
+} from './queries.types';
 
-export type { QueryResult } from './queries.types';
+export type {
+  QueryArguments,
+  QueryDefinitionOptions,
+  QueryPage,
+  QueryPageOptions,
+  QueryResult,
+  QueryStreamOptions,
+  TypedQuery,
+} from './queries.types';
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+type RowObject = Record<string, unknown>;
+
+function isRow(value: unknown): value is RowObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function queryPath(id: string, action: 'execute' | 'stream'): string {
+  return `/api/v1/custom-queries/${encodePathSegment(id, 'id', coreErrors)}/${action}`;
+}
+
+/** Reads one page, deriving the paging fields the server leaves out. */
+function readQueryPage(value: unknown, skip: number, limit: number): QueryPage {
+  const page = expectObject<Record<string, unknown>>(value, 'Query page response', coreErrors);
+  const { rows } = page;
+  if (!Array.isArray(rows) || !rows.every(isRow)) {
+    throw coreErrors.invalidResponse('Query page response has an invalid rows field');
+  }
+  const total = typeof page.total === 'number' ? page.total : null;
+  const hasMore =
+    typeof page.hasMore === 'boolean'
+      ? page.hasMore
+      : total !== null
+        ? skip + rows.length < total
+        : rows.length === limit;
+  const nextSkip = typeof page.nextSkip === 'number' ? page.nextSkip : skip + rows.length;
+  return { rows, total, hasMore, nextSkip: hasMore ? nextSkip : null };
+}
+
+/** Reads one NDJSON line: `{"row": {...}}` or `{"total": n}`. */
+function readStreamLine(line: string): { row?: RowObject; total?: number } {
+  let message: unknown;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    throw coreErrors.invalidResponse('Query stream has a line with invalid JSON');
+  }
+  if (!isRow(message)) {
+    throw coreErrors.invalidResponse('Query stream has a line that is not an object');
+  }
+  if (message.row !== undefined) {
+    if (!isRow(message.row)) {
+      throw coreErrors.invalidResponse('Query stream has a line with an invalid row field');
+    }
+    return { row: message.row };
+  }
+  return typeof message.total === 'number' ? { total: message.total } : {};
+}
 
 /** Platform SDK 1.x facade over the shared custom query contract. */
 export class QueriesModule {
   private dataSourceId = '';
   private readonly core: CoreQueriesModule;
 
-  constructor(httpClient: HttpClient) {
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly cache: QueryCache = new QueryCache()
+  ) {
     this.core = createQueriesModule(httpClient, () => this.dataSourceId, coreErrors);
   }
 
   /** Called by `client.init()` to set the app's resolved data source. */
   setDataSourceId(dataSourceId: string): void {
     this.dataSourceId = dataSourceId;
+    this.cache.invalidateQuery();
+  }
+
+  /**
+   * Executes a custom query. Results are cached per query and parameters when
+   * the client was created with `cache`.
+   */
+  execute(
+    id: string,
+    parameters?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<QueryResult> {
+    const { signal, timeoutMs, retry } = options ?? {};
+    return this.cache.read(
+      queryCacheKey(id, parameters),
+      async (loadSignal) => {
+        const core = options ? this.coreFor({ signal: loadSignal, timeoutMs, retry }) : this.core;
+        const result = await core.execute(id, parameters);
+        return { ...result, affectedRows: result.affectedRows ?? null };
+      },
+      signal
+    );
+  }
+
+  /**
+   * Defines a custom query with typed parameters and rows. The optional
+   * validators check the parameters before the request is sent and every
+   * returned row, so mistakes fail before reaching the server.
+   *
+   * @example
+   * ```typescript
+   * const activeTasks = mitra.queries.defineQuery<{ status: string }, { id: string }>(
+   *   'active-tasks'
+   * );
+   * const { rows } = await activeTasks.execute({ status: 'open' });
+   * ```
+   */
+  defineQuery<Params = Record<string, unknown>, Row = Record<string, unknown>>(
+    id: string,
+    options: QueryDefinitionOptions<Params, Row> = {}
+  ): TypedQuery<Params, Row> {
+    const { params: paramsSchema, rows: rowSchema } = options;
+    const check = async (parameters: Params | undefined) =>
+      (paramsSchema
+        ? await validateRecord(paramsSchema, parameters ?? {}, id, 'input', 'query')
+        : parameters) as Record<string, unknown> | undefined;
+    const checkRows = async (rows: unknown[]) =>
+      rowSchema ? validateRecords(rowSchema, rows, id, 'query') : (rows as Row[]);
+    const checkRow = async (row: unknown) =>
+      rowSchema ? validateRecord(rowSchema, row, id, 'response', 'query') : (row as Row);
+    const executePaged = this.executePaged.bind(this);
+    const executeStream = this.executeStream.bind(this);
+
+    return {
+      id,
+      execute: async (...[parameters, callOptions]: QueryArguments<Params>) => {
+        const result = await this.execute(id, await check(parameters), callOptions);
+        // Cached results are shared with untyped calls, so validate a copy
+        return { ...result, rows: await checkRows(result.rows) };
+      },
+      async *executePaged(...[parameters, pageOptions]: QueryArguments<Params, QueryPageOptions>) {
+        for await (const page of executePaged(id, await check(parameters), pageOptions)) {
+          yield { ...page, rows: await checkRows(page.rows) };
+        }
+      },
+      async *executeStream(
+        ...[parameters, streamOptions]: QueryArguments<Params, QueryStreamOptions>
+      ) {
+        for await (const row of executeStream(id, await check(parameters), streamOptions)) {
+          yield await checkRow(row);
+        }
+      },
+    };
+  }
+
+  /**
+   * Executes a custom query one page at a time, requesting the next page only
+   * when the previous one was consumed. Pages are not cached.
+   *
+   * @throws {MitraApiError} With code `INVALID_CONFIGURATION` for an invalid
+   *   `pageSize` or before `init()`
+   *
+   * @example
+   * ```typescript
+   * for await (const page of mitra.queries.executePaged('orders', {}, { pageSize: 5000 })) {
+   *   await writeCsv(page.rows);
+   *   console.log(`${page.rows.length} of ${page.total ?? 'unknown'}`);
+   * }
+   * ```
+   */
+  async *executePaged(
+    id: string,
+    parameters?: Record<string, unknown>,
+    options: QueryPageOptions = {}
+  ): AsyncGenerator<QueryPage, void, undefined> {
+    const { pageSize = DEFAULT_PAGE_SIZE, signal, timeoutMs, retry } = options;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw coreErrors.configuration('pageSize must be a positive integer');
+    }
+    const dataSourceId = this.requireDataSourceId();
+    let skip: number | null = options.skip ?? 0;
+    while (skip !== null) {
+      const response = await this.httpClient.request<unknown>(queryPath(id, 'execute'), {
+        method: 'POST',
+        body: { dataSourceId, parameters: parameters ?? {}, limit: pageSize, skip },
+        signal,
+        timeoutMs,
+        retry,
+      });
+      const page = readQueryPage(response, skip, pageSize);
+      yield page;
+      // An empty page that claims more rows would otherwise loop forever
+      skip = page.rows.length > 0 ? page.nextSkip : null;
+    }
+  }
+
+  /**
+   * Streams the rows of a custom query as newline-delimited JSON, yielding
+   * each row as it arrives so large results never sit in memory at once.
+   * Breaking out of the loop closes the stream.
+   *
+   * @throws {MitraApiError} With code `INVALID_RESPONSE` for a malformed line,
+   *   or `REQUEST_ABORTED` when `signal` aborts
+   *
+   * @example
+   * ```typescript
+   * const rows = mitra.queries.executeStream('orders', {}, {
+   *   onTotal: (total) => setExpected(total),
+   * });
+   * for await (const row of rows) await writeCsvRow(row);
+   * ```
+   */
+  async *executeStream(
+    id: string,
+    parameters?: Record<string, unknown>,
+    options: QueryStreamOptions = {}
+  ): AsyncGenerator<Record<string, unknown>, void, undefined> {
+    const { signal, onTotal } = options;
+    const dataSourceId = this.requireDataSourceId();
+    try {
+      const body = await this.httpClient.stream(queryPath(id, 'stream'), {
+        method: 'POST',
+        headers: { Accept: 'application/x-ndjson' },
+        body: { dataSourceId, parameters: parameters ?? {} },
+        signal,
+      });
+      for await (const line of readLines(body)) {
+        if (line.trim() === '') continue;
+        const { row, total } = readStreamLine(line);
+        if (row) {
+          yield row;
+        } else if (total !== undefined) {
+          try {
+            onTotal?.(total);
+          } catch (error) {
+            console.error('Query total callback error:', error);
+          }
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      throw error;
+    }
+  }
+
+  private requireDataSourceId(): string {
+    if (!this.dataSourceId) {
+      throw coreErrors.configuration('Custom queries need a data source; call init() first');
+    }
+    return this.dataSourceId;
   }
 
-  async execute(id: string, parameters?: Record<string, unknown>): Promise<QueryResult> {
-    const result = await this.core.execute(id, parameters);
-    return { ...result, affectedRows: result.affectedRows ?? null };
+  private coreFor(options: CallOptions): CoreQueriesModule {
+    return createQueriesModule(
+      this.httpClient.withOptions(options),
+      () => this.dataSourceId,
+      coreErrors
+    );
   }
 }
@@ -1,7 +1,76 @@
+import type { CallOptions } from '../utils/http-client';
+import type { StandardSchemaV1 } from '../utils/standard-schema';
+
 /** Result of executing a custom query. */
-export interface QueryResult {
+export interface QueryResult<Row = Record<string, unknown>> {
   /** Array of row objects returned by the query. */
-  rows: Record<string, unknown>[];
+  rows: Row[];
   /** Number of affected rows (null for SELECT). */
   affectedRows: number | null;
 }
+
+/** Options for `QueriesModule.executePaged`. */
+export interface QueryPageOptions extends CallOptions {
+  /** Rows fetched per request (default: 1000). */
+  pageSize?: number;
+  /** Number of rows to skip before the first page. */
+  skip?: number;
+}
+
+/** One page of rows returned by `executePaged`. */
+export interface QueryPage<Row = Record<string, unknown>> {
+  /** Rows in this page. */
+  rows: Row[];
+  /** Total number of rows of the query, or null when the server does not count them. */
+  total: number | null;
+  /** Whether more rows follow this page. */
+  hasMore: boolean;
+  /** `skip` value for the next page, or null on the last page. */
+  nextSkip: number | null;
+}
+
+/** Options for `QueriesModule.executeStream`. */
+export interface QueryStreamOptions {
+  /** Closes the stream. Streams are long-lived, so timeouts do not apply. */
+  signal?: AbortSignal;
+  /** Called with the total number of rows when the server reports it. */
+  onTotal?: (total: number) => void;
+}
+
+/** Runtime validators of a query defined with `defineQuery`. */
+export interface QueryDefinitionOptions<Params, Row> {
+  /**
+   * Standard Schema validator for the parameters, checked before the request
+   * is sent. Its output is what gets sent.
+   */
+  params?: StandardSchemaV1<Params, unknown>;
+  /** Standard Schema validator for every returned row. Its output is returned. */
+  rows?: StandardSchemaV1<unknown, Row>;
+}
+
+/** Arguments of the `TypedQuery` methods, with parameters optional when every parameter is. */
+export type QueryArguments<Params, Options = CallOptions> =
+  Record<string, never> extends Params
+    ? [parameters?: Params, options?: Options]
+    : [parameters: Params, options?: Options];
+
+/** Custom query with typed parameters and rows, created by `defineQuery`. */
+export interface TypedQuery<Params = Record<string, unknown>, Row = Record<string, unknown>> {
+  /** ID of the custom query. */
+  readonly id: string;
+  /**
+   * Executes the query.
+   *
+   * @throws {MitraApiError} With code `SCHEMA_MISMATCH` when the parameters or
+   *   rows do not match the validators of the definition
+   */
+  execute(...args: QueryArguments<Params>): Promise<QueryResult<Row>>;
+  /** Executes the query one page at a time, like `QueriesModule.executePaged`. */
+  executePaged(
+    ...args: QueryArguments<Params, QueryPageOptions>
+  ): AsyncGenerator<QueryPage<Row>, void, undefined>;
+  /** Streams the rows of the query, like `QueriesModule.executeStream`. */
+  executeStream(
+    ...args: QueryArguments<Params, QueryStreamOptions>
+  ): AsyncGenerator<Row, void, undefined>;
+}
@@ -10,6 +10,17 @@ export function mockFetch(response: unknown, status = 200) {
   return fn;
 }
 
+export function mockAbortableFetch() {
+  const fn = vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      })
+  );
+  vi.stubGlobal('fetch', fn);
+  return fn;
+}
+
 export function mockFetchSequence(responses: Array<{ body: unknown; status?: number }>) {
   const fn = vi.fn();
   responses.forEach(({ body, status = 200 }) => {
@@ -23,6 +34,18 @@ export function mockFetchSequence(responses: Array<{ body: unknown; status?: num
   return fn;
 }
 
+export function createByteStream(chunks: Array<string | Uint8Array>) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) =>
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk)
+      );
+      controller.close();
+    },
+  });
+}
+
 export function mockLocalStorage() {
   const store: Record<string, string> = {};
   const storage = {
@@ -37,3 +60,61 @@ export function mockLocalStorage() {
   vi.stubGlobal('localStorage', storage);
   return storage;
 }
+
+export function mockWindow() {
+  const listeners = new Map<string, Set<(event: unknown) => void>>();
+  const window = {
+    location: { href: '' },
+    addEventListener: vi.fn((type: string, listener: (event: unknown) => void) => {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+    }),
+    removeEventListener: vi.fn((type: string, listener: (event: unknown) => void) => {
+      listeners.get(type)?.delete(listener);
+    }),
+    dispatch(type: string, event: unknown) {
+      listeners.get(type)?.forEach((listener) => listener(event));
+    },
+  };
+  vi.stubGlobal('window', window);
+  return window;
+}
+
+export function mockBroadcastChannel() {
+  const channels = new Set<FakeBroadcastChannel>();
+  class FakeBroadcastChannel {
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+    constructor(readonly name: string) {
+      channels.add(this);
+    }
+    postMessage(data: unknown) {
+      const message = structuredClone(data);
+      channels.forEach((channel) => {
+        if (channel !== this && channel.name === this.name) channel.onmessage?.({ data: message });
+      });
+    }
+    close() {
+      channels.delete(this);
+    }
+  }
+  vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  return channels;
+}
+
+export function mockLocks() {
+  const queues = new Map<string, Promise<unknown>>();
+  const locks = {
+    request: vi.fn((name: string, callback: () => Promise<unknown>) => {
+      const result = (queues.get(name) ?? Promise.resolve()).then(() => callback());
+      queues.set(name, result.catch(() => undefined));
+      return result;
+    }),
+  };
+  vi.stubGlobal('navigator', { locks });
+  return locks;
+}
+
+export function createJwt(claims: unknown): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
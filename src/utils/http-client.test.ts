@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { HttpClient, MitraApiError } from './http-client';
-import { mockFetch } from '../test-utils';
+import { HttpClient, MitraApiError, type InterceptorResponse } from './http-client';
+import { createByteStream, mockAbortableFetch, mockFetch, mockFetchSequence } from '../test-utils';
 
 describe('HttpClient', () => {
   afterEach(() => {
@@ -58,6 +58,27 @@ describe('HttpClient', () => {
     });
   });
 
+  it('should send form data and binary bodies without JSON encoding', async () => {
+    const fetchMock = mockFetch({ id: 1 });
+    const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
+    const form = new FormData();
+    const chunk = new Uint8Array([1, 2, 3]);
+
+    await client.post('/files', form);
+    await client.request('/files/1', {
+      method: 'PUT',
+      body: chunk,
+      headers: { 'Content-Type': 'application/octet-stream' },
+    });
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+    expect(fetchMock.mock.calls[0][1].body).toBe(form);
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: chunk,
+    });
+  });
+
   it('should PUT with correct method and body', async () => {
     const fetchMock = mockFetch({ id: 1, name: 'Updated' });
     const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
@@ -478,4 +499,434 @@ describe('HttpClient', () => {
       expect(serialized).not.toContain(credential);
     }
   });
+
+  it('should run request interceptors in order before sending', async () => {
+    const fetchMock = mockFetch({ id: 1 });
+    const calls: string[] = [];
+    const client = new HttpClient({
+      baseUrl: 'https://api.mitra.io',
+      getToken: () => 'my-jwt-token',
+      interceptors: [
+        {
+          onRequest: async (request) => {
+            calls.push('first');
+            request.headers['X-Trace-Id'] = 'trace-1';
+          },
+        },
+        {
+          onRequest: (request) => {
+            calls.push('second');
+            return {
+              ...request,
+              url: `${request.url}?traced=${request.headers['X-Trace-Id']}`,
+              body: { wrapped: request.body },
+            };
+          },
+        },
+      ],
+    });
+
+    await client.post('/users', { name: 'John' });
+
+    expect(calls).toEqual(['first', 'second']);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.mitra.io/users?traced=trace-1', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': 'Bearer my-jwt-token',
+        'X-Trace-Id': 'trace-1',
+      },
+      body: JSON.stringify({ wrapped: { name: 'John' } }),
+      redirect: 'manual',
+    });
+  });
+
+  it('should let response interceptors rewrite the result', async () => {
+    mockFetch({ id: 1 });
+    const onResponse = vi.fn(async (response: InterceptorResponse) => ({
+      ...response,
+      data: { ...(response.data as object), intercepted: true },
+    }));
+    const client = new HttpClient({
+      baseUrl: 'https://api.mitra.io',
+      interceptors: [{ onResponse }, { onResponse: () => undefined }],
+    });
+
+    const result = await client.get('/users/1');
+
+    expect(result).toEqual({ id: 1, intercepted: true });
+    expect(onResponse).toHaveBeenCalledWith(
+      { status: 200, data: { id: 1 } },
+      expect.objectContaining({ method: 'GET', url: 'https://api.mitra.io/users/1' })
+    );
+  });
+
+  it('should pass errors through error interceptors before onError', async () => {
+    mockFetch({ message: 'Not found', error_code: 'ENTITY_NOT_FOUND' }, 404);
+    const onError = vi.fn();
+    const client = new HttpClient({
+      baseUrl: 'https://api.mitra.io',
+      onError,
+      interceptors: [
+        {
+          onError: async (error) =>
+            new MitraApiError(`Users: ${error.message}`, error.status, error.code, error.details),
+        },
+      ],
+    });
+
+    await expect(client.get('/users/999')).rejects.toMatchObject({
+      message: 'Users: Not found',
+      status: 404,
+      code: 'ENTITY_NOT_FOUND',
+    });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Users: Not found' }));
+  });
+
+  it('should run interceptors again for the request replayed after a 401', async () => {
+    mockFetchSequence([
+      { body: { message: 'Unauthorized' }, status: 401 },
+      { body: { id: 1 } },
+    ]);
+    const onRequest = vi.fn();
+    const onError = vi.fn();
+    const client = new HttpClient({
+      baseUrl: 'https://api.mitra.io',
+      onUnauthorized: vi.fn().mockResolvedValue(true),
+      interceptors: [{ onRequest, onError }],
+    });
+
+    await client.get('/users');
+
+    expect(onRequest).toHaveBeenCalledTimes(2);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  describe('retry policy', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should not retry transient failures unless enabled', async () => {
+      const fetchMock = mockFetch({ message: 'Unavailable' }, 503);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
+
+      await expect(client.get('/users')).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should retry retryable statuses and network errors until success', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, json: vi.fn() })
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: vi.fn().mockResolvedValue({ id: 1 }) });
+      vi.stubGlobal('fetch', fetchMock);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: { baseDelayMs: 0 } });
+
+      await expect(client.get('/users')).resolves.toEqual({ id: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      for (const [, options] of fetchMock.mock.calls) {
+        expect(options).toMatchObject({ redirect: 'manual' });
+      }
+    });
+
+    it('should back off exponentially with full jitter', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const fetchMock = mockFetchSequence([
+        { body: {}, status: 502 },
+        { body: {}, status: 504 },
+        { body: { id: 1 } },
+      ]);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: true });
+
+      const result = client.get('/users');
+      await vi.advanceTimersByTimeAsync(149);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      await expect(result).resolves.toEqual({ id: 1 });
+    });
+
+    it('should honor Retry-After and give up when it exceeds maxDelayMs', async () => {
+      vi.useFakeTimers();
+      const tooManyRequests = (retryAfter: string) => ({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': retryAfter }),
+        json: vi.fn().mockResolvedValue({ message: 'Slow down' }),
+      });
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(tooManyRequests('2'))
+        .mockResolvedValueOnce(tooManyRequests('60'));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: { maxAttempts: 5 } });
+
+      const result = client.get('/users');
+      const assertion = expect(result).rejects.toMatchObject({ status: 429, message: 'Slow down' });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only retry idempotent methods unless overridden per request', async () => {
+      const fetchMock = mockFetch({ message: 'Unavailable' }, 503);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: { baseDelayMs: 0 } });
+
+      await expect(client.post('/orders', { id: 1 })).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await expect(
+        client.request('/orders', {
+          method: 'POST',
+          body: { id: 1 },
+          retry: { methods: ['POST'], baseDelayMs: 0 },
+        })
+      ).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+
+      await expect(client.request('/orders', { retry: false })).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+    });
+
+    it('should carry a retry override through withOptions', async () => {
+      const fetchMock = mockFetch({ message: 'Unavailable' }, 503);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
+      const retrying = client.withOptions({ retry: { baseDelayMs: 0 } });
+
+      await expect(retrying.get('/users')).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      await expect(retrying.request('/users', { retry: false })).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should never retry redirected responses and keep redacting errors', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+        redirected: true,
+        type: 'basic',
+        json: vi.fn(),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: { baseDelayMs: 0 } });
+
+      await expect(client.get('/users')).rejects.toMatchObject({ code: 'REDIRECT_NOT_ALLOWED' });
+      expect(fetchMock).toHaveBeenCalledOnce();
+
+      mockFetch({ message: 'Rejected Bearer secret-token' }, 503);
+      await expect(client.get('/users')).rejects.toMatchObject({
+        message: 'Rejected Bearer [REDACTED]',
+      });
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reject with REQUEST_ABORTED without calling onError', async () => {
+      const fetchMock = mockAbortableFetch();
+      const onError = vi.fn();
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', onError });
+      const controller = new AbortController();
+
+      const result = client.request('/users', { signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ status: 0, code: 'REQUEST_ABORTED' });
+      expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should reject an already aborted signal', async () => {
+      mockAbortableFetch();
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.request('/users', { signal: controller.signal })
+      ).rejects.toBeInstanceOf(MitraApiError);
+    });
+
+    it('should time out with REQUEST_TIMEOUT and report it to onError', async () => {
+      vi.useFakeTimers();
+      mockAbortableFetch();
+      const onError = vi.fn();
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', onError, timeoutMs: 5000 });
+
+      const result = client.get('/users');
+      const assertion = expect(result).rejects.toMatchObject({
+        status: 0,
+        code: 'REQUEST_TIMEOUT',
+        message: 'Request timed out after 5000ms',
+      });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      await assertion;
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'REQUEST_TIMEOUT' }));
+    });
+
+    it('should let the per-request timeout override the client default', async () => {
+      vi.useFakeTimers();
+      mockAbortableFetch();
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', timeoutMs: 60_000 });
+
+      const result = client.request('/users', { timeoutMs: 100 });
+      const assertion = expect(result).rejects.toMatchObject({ code: 'REQUEST_TIMEOUT' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+    });
+
+    it('should abort while waiting for a retry', async () => {
+      vi.useFakeTimers();
+      const fetchMock = mockFetch({ message: 'Unavailable' }, 503);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: true });
+      const controller = new AbortController();
+
+      const result = client.request('/users', { signal: controller.signal });
+      const assertion = expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('should apply scoped call options through withOptions()', async () => {
+      const fetchMock = mockAbortableFetch();
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
+      const controller = new AbortController();
+
+      const result = client.withOptions({ signal: controller.signal }).get('/users');
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.mitra.io/users');
+    });
+  });
+
+  describe('network-level errors', () => {
+    it('should wrap fetch rejections in NETWORK_ERROR and report them', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+      const onError = vi.fn();
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', onError });
+
+      const result = client.get('/users');
+
+      await expect(result).rejects.toBeInstanceOf(MitraApiError);
+      await expect(result).rejects.toMatchObject({
+        status: 0,
+        code: 'NETWORK_ERROR',
+        message: 'Network request failed: Failed to fetch',
+      });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'NETWORK_ERROR' }));
+    });
+
+    it('should wrap network errors once retries are exhausted', async () => {
+      const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io', retry: { baseDelayMs: 0 } });
+
+      await expect(client.get('/users')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wrap unparsable success bodies in INVALID_JSON', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockRejectedValue(new SyntaxError('Unexpected token <')),
+        })
+      );
+      const onError = vi.fn();
+      const errorInterceptor = vi.fn();
+      const client = new HttpClient({
+        baseUrl: 'https://api.mitra.io',
+        onError,
+        interceptors: [{ onError: errorInterceptor }],
+      });
+
+      await expect(client.get('/users')).rejects.toMatchObject({
+        status: 0,
+        code: 'INVALID_JSON',
+        message: 'Response body is not valid JSON: Unexpected token <',
+        details: { status: 200 },
+      });
+      expect(errorInterceptor).toHaveBeenCalledOnce();
+      expect(onError).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('streaming requests', () => {
+    it('should return the response body without parsing it', async () => {
+      const body = createByteStream(['data: 1\n\n']);
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, body });
+      vi.stubGlobal('fetch', fetchMock);
+      const onResponse = vi.fn();
+      const client = new HttpClient({
+        baseUrl: 'https://api.mitra.io',
+        getToken: () => 'token',
+        timeoutMs: 1,
+        interceptors: [{ onResponse }],
+      });
+
+      await expect(
+        client.stream('/events', { headers: { Accept: 'text/event-stream' } })
+      ).resolves.toBe(body);
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+        Accept: 'text/event-stream',
+        Authorization: 'Bearer token',
+      });
+      expect(fetchMock.mock.calls[0][1].signal).toBeUndefined();
+      expect(onResponse).not.toHaveBeenCalled();
+    });
+
+    it('should replay streams after a session refresh and fail on error statuses', async () => {
+      const body = createByteStream([]);
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 401, json: vi.fn().mockResolvedValue({}) })
+        .mockResolvedValueOnce({ ok: true, status: 200, body })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          json: vi.fn().mockResolvedValue({ message: 'Down' }),
+        });
+      vi.stubGlobal('fetch', fetchMock);
+      const client = new HttpClient({
+        baseUrl: 'https://api.mitra.io',
+        onUnauthorized: vi.fn().mockResolvedValue(true),
+      });
+
+      await expect(client.stream('/events')).resolves.toBe(body);
+      await expect(client.stream('/events')).rejects.toMatchObject({ status: 500, message: 'Down' });
+    });
+
+    it('should report a response without a body with its status', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 204, body: null }));
+      const client = new HttpClient({ baseUrl: 'https://api.mitra.io' });
+
+      await expect(client.stream('/events')).rejects.toMatchObject({
+        status: 204,
+        code: 'INVALID_RESPONSE',
+        message: 'Response has no body',
+      });
+    });
+  });
 });
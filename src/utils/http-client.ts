@@ -3,6 +3,7 @@ import type {
   Transport,
   TransportRequestOptions,
 } from '@mitralab.io/sdk-core';
+import { sleep } from './sleep';
 
 type ErrorPayload = Record<string, unknown>;
 
@@ -38,6 +39,20 @@ function optionalString(value: unknown): string | undefined {
   return typeof value === 'string' ? value : undefined;
 }
 
+/** Bodies sent as they are instead of as JSON: form data, files, and binary data. */
+function isRawBody(body: unknown): body is FormData | Blob | ArrayBuffer | ArrayBufferView {
+  return (
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 function buildRequestUrl(
   baseUrl: string,
   path: string,
@@ -55,9 +70,179 @@ function buildRequestUrl(
   return queryString ? `${url}?${queryString}` : url;
 }
 
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+  statuses: [429, 502, 503, 504],
+  methods: ['GET', 'PUT', 'DELETE'],
+  retryNetworkErrors: true,
+};
+
+function resolveRetryPolicy(retry: RetryPolicy | boolean | undefined): Required<RetryPolicy> | null {
+  if (!retry) return null;
+  return retry === true ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, ...retry };
+}
+
+/** Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds. */
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/** Exponential backoff with full jitter. */
+function backoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
+
+interface AbortScope {
+  signal?: AbortSignal;
+  timedOut: boolean;
+  dispose(): void;
+}
+
+/** Combines a caller signal and a timeout into one signal for fetch. */
+function createAbortScope(signal?: AbortSignal, timeoutMs?: number): AbortScope {
+  if (timeoutMs === undefined) return { signal, timedOut: false, dispose: () => undefined };
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const scope: AbortScope = {
+    signal: controller.signal,
+    timedOut: false,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+  const timer = setTimeout(() => {
+    scope.timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  return scope;
+}
+
+/**
+ * Creates the error thrown when the caller aborts a request.
+ * @internal
+ */
+export function createAbortError(): MitraApiError {
+  return new MitraApiError('Request was aborted', 0, 'REQUEST_ABORTED');
+}
+
 /** Allowed query parameter value types. */
 export type { QueryParamValue } from '@mitralab.io/sdk-core';
 
+/**
+ * Request passed through interceptors before it is sent.
+ */
+export interface InterceptorRequest {
+  /** Absolute URL, including query parameters. */
+  url: string;
+  /** HTTP method. */
+  method: string;
+  /** Request headers, including Authorization when a token is available. */
+  headers: Record<string, string>;
+  /** Request body before JSON serialization. */
+  body: unknown;
+}
+
+/**
+ * Successful response passed through interceptors before it is returned.
+ */
+export interface InterceptorResponse {
+  /** HTTP status code. */
+  status: number;
+  /** Parsed JSON body (undefined for 204 responses). */
+  data: unknown;
+}
+
+/**
+ * Hooks run around every request, in the order the interceptors are configured.
+ * Each hook may be async. Returning nothing keeps the current value.
+ *
+ * @example
+ * ```typescript
+ * const tracing: HttpInterceptor = {
+ *   onRequest: (request) => {
+ *     request.headers['X-Request-Id'] = crypto.randomUUID();
+ *   },
+ *   onResponse: (response, request) => {
+ *     console.debug(request.method, request.url, response.status);
+ *   },
+ *   onError: (error) => new MitraApiError(`API: ${error.message}`, error.status, error.code, error.details),
+ * };
+ * ```
+ */
+export interface HttpInterceptor {
+  /** Inspects or rewrites the request before it is sent. */
+  onRequest?(
+    request: InterceptorRequest
+  ): InterceptorRequest | void | Promise<InterceptorRequest | void>;
+  /** Inspects or rewrites a successful response before it is returned. */
+  onResponse?(
+    response: InterceptorResponse,
+    request: InterceptorRequest
+  ): InterceptorResponse | void | Promise<InterceptorResponse | void>;
+  /** Inspects or replaces an error before `onError` is called and the error is thrown. */
+  onError?(
+    error: MitraApiError,
+    request: InterceptorRequest
+  ): MitraApiError | void | Promise<MitraApiError | void>;
+}
+
+/**
+ * Policy for automatically retrying transient failures.
+ *
+ * Only responses with a listed status and `fetch` network errors are retried,
+ * and only for the listed methods. Redirects are never retried.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first request (default: 3). */
+  maxAttempts?: number;
+  /** Backoff ceiling for the first retry, doubled on each later retry (default: 300). */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for the backoff delay (default: 10 000). A `Retry-After`
+   * header asking for a longer wait ends the retries instead.
+   */
+  maxDelayMs?: number;
+  /** HTTP statuses worth retrying (default: 429, 502, 503, 504). */
+  statuses?: number[];
+  /** Methods that may be retried (default: the idempotent GET, PUT, and DELETE). */
+  methods?: string[];
+  /** Whether to retry when `fetch` itself rejects, e.g. when offline (default: true). */
+  retryNetworkErrors?: boolean;
+}
+
+/**
+ * Per-call cancellation, timeout, and retry options.
+ *
+ * @example
+ * ```typescript
+ * useEffect(() => {
+ *   const controller = new AbortController();
+ *   mitra.entities.Task.list({ limit: 20, signal: controller.signal }).then(setTasks);
+ *   return () => controller.abort();
+ * }, []);
+ * ```
+ */
+export interface CallOptions {
+  /** Aborts the request; the call rejects with code `REQUEST_ABORTED`. */
+  signal?: AbortSignal;
+  /** Fails the request after this many milliseconds with code `REQUEST_TIMEOUT`. */
+  timeoutMs?: number;
+  /** Overrides the client retry policy for this call (`false` disables retries). */
+  retry?: RetryPolicy | boolean;
+}
+
 /**
  * Configuration options for creating an HttpClient instance.
  */
@@ -72,15 +257,24 @@ export interface HttpClientConfig {
   onError?: (error: MitraApiError) => void;
   /** Headers included in every request (e.g., X-App-Id for tracing). */
   defaultHeaders?: Record<string, string>;
+  /** Request, response, and error hooks run in order around every request. */
+  interceptors?: HttpInterceptor[];
+  /** Retry policy for transient failures. Disabled by default; `true` uses the default policy. */
+  retry?: RetryPolicy | boolean;
+  /** Default timeout for every request, in milliseconds, including retries. No timeout by default. */
+  timeoutMs?: number;
 }
 
 /**
  * Options for making HTTP requests.
  */
-export interface RequestOptions extends Omit<TransportRequestOptions, 'method'> {
+export interface RequestOptions extends Omit<TransportRequestOptions, 'method'>, CallOptions {
   /** HTTP method (defaults to 'GET') */
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-  /** Request body (will be JSON stringified) */
+  /**
+   * Request body. `FormData`, `Blob`, `ArrayBuffer`, and typed arrays are sent
+   * as they are; anything else is JSON stringified.
+   */
   body?: unknown;
   /** Additional headers to include in the request */
   headers?: Record<string, string>;
@@ -113,13 +307,20 @@ export class HttpClient implements Transport {
   private readonly onUnauthorized?: () => Promise<boolean>;
   private readonly onError?: (error: MitraApiError) => void;
   private readonly defaultHeaders: Record<string, string>;
+  private readonly interceptors: readonly HttpInterceptor[];
+  private readonly retry?: RetryPolicy | boolean;
 
-  constructor(config: HttpClientConfig) {
+  constructor(
+    private readonly config: HttpClientConfig,
+    private readonly callOptions: CallOptions = {}
+  ) {
     this.baseUrl = config.baseUrl.replace(/\/$/, '');
     this.tokenGetter = config.getToken ?? (() => null);
     this.onUnauthorized = config.onUnauthorized;
     this.onError = config.onError;
     this.defaultHeaders = config.defaultHeaders ?? {};
+    this.interceptors = [...(config.interceptors ?? [])];
+    this.retry = config.retry;
   }
 
   /**
@@ -130,13 +331,23 @@ export class HttpClient implements Transport {
     return this.tokenGetter();
   }
 
+  /**
+   * Returns a client with the same configuration whose requests default to
+   * the given signal and timeout. Used to scope calls made through sdk-core.
+   */
+  withOptions(options: CallOptions): HttpClient {
+    return new HttpClient(this.config, { ...this.callOptions, ...options });
+  }
+
   /**
    * Makes an HTTP request with automatic JSON handling and authentication.
    *
    * @param path - API endpoint path (e.g., '/users')
    * @param options - Request options including method, body, headers, and params
    * @returns Promise resolving to the parsed JSON response
-   * @throws {MitraApiError} When the API returns an error response
+   * @throws {MitraApiError} When the API returns an error response, with code
+   *   `NETWORK_ERROR` / `INVALID_JSON` when the request or response body fails,
+   *   or `REQUEST_ABORTED` / `REQUEST_TIMEOUT` when it is aborted or times out
    *
    * @example
    * ```typescript
@@ -146,13 +357,53 @@ export class HttpClient implements Transport {
    * });
    * ```
    */
-  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
-    const { method = 'GET', body, headers = {}, params, isRetry } = options;
+  request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.dispatch(
+      path,
+      options,
+      options.timeoutMs ?? this.callOptions.timeoutMs ?? this.config.timeoutMs,
+      (response, request, signal) => this.readJson<T>(response, request, signal)
+    );
+  }
 
-    const url = buildRequestUrl(this.baseUrl, path, params);
+  /**
+   * Makes an HTTP request and returns the response body as a byte stream,
+   * for Server-Sent Events and other streaming endpoints.
+   *
+   * Authentication, retries, redirects, and errors are handled like
+   * {@link request}. Streams are long-lived, so timeouts do not apply; abort
+   * `signal` to close the stream. Response interceptors do not run because the
+   * body is not parsed.
+   *
+   * @example
+   * ```typescript
+   * const body = await client.stream('/events', {
+   *   headers: { Accept: 'text/event-stream' },
+   *   signal: controller.signal,
+   * });
+   * ```
+   */
+  stream(path: string, options: RequestOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    return this.dispatch(path, options, undefined, async (response, request) =>
+      response.body ??
+      this.fail(
+        new MitraApiError('Response has no body', response.status, 'INVALID_RESPONSE'),
+        request
+      )
+    );
+  }
+
+  private async dispatch<T>(
+    path: string,
+    options: RequestOptions,
+    timeoutMs: number | undefined,
+    read: (response: Response, request: InterceptorRequest, signal?: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const { method = 'GET', body, headers = {}, params } = options;
 
+    // Raw bodies carry their own type, and FormData needs the boundary fetch generates
     const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(isRawBody(body) ? {} : { 'Content-Type': 'application/json' }),
       ...this.defaultHeaders,
       ...headers,
     };
@@ -162,28 +413,65 @@ export class HttpClient implements Transport {
       requestHeaders['Authorization'] = `Bearer ${token}`;
     }
 
-    const response = await fetch(url, {
+    let request: InterceptorRequest = {
+      url: buildRequestUrl(this.baseUrl, path, params),
       method,
       headers: requestHeaders,
-      body: body ? JSON.stringify(body) : undefined,
-      redirect: 'manual',
-    });
+      body,
+    };
+    const scope = createAbortScope(options.signal ?? this.callOptions.signal, timeoutMs);
+    try {
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onRequest) request = (await interceptor.onRequest(request)) ?? request;
+      }
+      return await this.perform(options, request, token, scope.signal, read, () =>
+        this.dispatch(path, { ...options, isRetry: true }, timeoutMs, read)
+      );
+    } catch (error) {
+      if (error instanceof MitraApiError || !scope.signal?.aborted) throw error;
+      if (scope.timedOut) {
+        return this.fail(
+          new MitraApiError(`Request timed out after ${timeoutMs}ms`, 0, 'REQUEST_TIMEOUT'),
+          request
+        );
+      }
+      // Cancellation is caller-initiated, so it is not reported to onError
+      throw createAbortError();
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  private async perform<T>(
+    options: RequestOptions,
+    request: InterceptorRequest,
+    token: string | null,
+    signal: AbortSignal | undefined,
+    read: (response: Response, request: InterceptorRequest, signal?: AbortSignal) => Promise<T>,
+    replay: () => Promise<T>
+  ): Promise<T> {
+    const response = await this.send(
+      request,
+      resolveRetryPolicy(options.retry ?? this.callOptions.retry ?? this.retry),
+      signal
+    );
 
     if (response.redirected || response.type === 'opaqueredirect') {
-      const error = new MitraApiError(
-        'Redirected responses are not allowed',
-        response.status,
-        'REDIRECT_NOT_ALLOWED'
+      return this.fail(
+        new MitraApiError(
+          'Redirected responses are not allowed',
+          response.status,
+          'REDIRECT_NOT_ALLOWED'
+        ),
+        request
       );
-      this.onError?.(error);
-      throw error;
     }
 
     if (!response.ok) {
-      if (response.status === 401 && !isRetry && this.onUnauthorized) {
+      if (response.status === 401 && !options.isRetry && this.onUnauthorized) {
         const refreshed = await this.onUnauthorized();
         if (refreshed) {
-          return this.request<T>(path, { ...options, isRetry: true });
+          return replay();
         }
       }
 
@@ -197,15 +485,97 @@ export class HttpClient implements Transport {
         rawCode === undefined ? undefined : redactText(rawCode, token),
         redactDetails(errorBody, token)
       );
-      this.onError?.(error);
-      throw error;
+      return this.fail(error, request);
     }
 
-    if (response.status === 204) {
-      return undefined as T;
+    return read(response, request, signal);
+  }
+
+  private async readJson<T>(
+    response: Response,
+    request: InterceptorRequest,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let data: unknown;
+    if (response.status !== 204) {
+      try {
+        data = await response.json();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        return this.fail(
+          new MitraApiError(
+            `Response body is not valid JSON: ${errorMessage(error)}`,
+            0,
+            'INVALID_JSON',
+            { status: response.status }
+          ),
+          request
+        );
+      }
     }
 
-    return response.json();
+    let result: InterceptorResponse = { status: response.status, data };
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onResponse) result = (await interceptor.onResponse(result, request)) ?? result;
+    }
+
+    return result.data as T;
+  }
+
+  private async send(
+    request: InterceptorRequest,
+    retryPolicy: Required<RetryPolicy> | null,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      const retryable =
+        retryPolicy !== null &&
+        attempt < retryPolicy.maxAttempts &&
+        retryPolicy.methods.includes(request.method);
+
+      signal?.throwIfAborted();
+      let response: Response;
+      try {
+        response = await fetch(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: isRawBody(request.body)
+            ? (request.body as BodyInit)
+            : request.body
+              ? JSON.stringify(request.body)
+              : undefined,
+          redirect: 'manual',
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (!retryable || !retryPolicy.retryNetworkErrors) {
+          return this.fail(
+            new MitraApiError(`Network request failed: ${errorMessage(error)}`, 0, 'NETWORK_ERROR'),
+            request
+          );
+        }
+        await sleep(backoffDelay(retryPolicy, attempt), signal);
+        continue;
+      }
+
+      const redirected = response.redirected || response.type === 'opaqueredirect';
+      if (redirected || !retryable || !retryPolicy.statuses.includes(response.status)) {
+        return response;
+      }
+      const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+      if (retryAfter !== null && retryAfter > retryPolicy.maxDelayMs) return response;
+      await sleep(retryAfter ?? backoffDelay(retryPolicy, attempt), signal);
+    }
+  }
+
+  private async fail(error: MitraApiError, request: InterceptorRequest): Promise<never> {
+    let finalError = error;
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onError) finalError = (await interceptor.onError(finalError, request)) ?? finalError;
+    }
+    this.onError?.(finalError);
+    throw finalError;
   }
 
   /**
@@ -273,6 +643,53 @@ export class HttpClient implements Transport {
   }
 }
 
+/**
+ * Error codes produced by the SDK itself rather than returned by the API.
+ *
+ * - `NETWORK_ERROR`: `fetch` rejected (offline, DNS, CORS); status `0`
+ * - `INVALID_JSON`: a successful response body could not be parsed; status `0`,
+ *   with the HTTP status in `details.status`
+ * - `REQUEST_ABORTED`: the caller's signal aborted the request; status `0`
+ * - `REQUEST_TIMEOUT`: the request exceeded `timeoutMs`; status `0`
+ * - `REDIRECT_NOT_ALLOWED`: the server answered with a redirect
+ * - `INVALID_CONFIGURATION`: the client or a call was misconfigured; status `0`
+ * - `INVALID_RESPONSE`: a response did not match the expected shape
+ * - `FUNCTION_EXECUTION_FAILED`: an awaited Function execution did not complete;
+ *   status `0`, with the execution in `details`
+ * - `FUNCTION_EXECUTION_TIMEOUT`: an execution was still running when the wait
+ *   timed out; status `0`
+ * - `INVALID_FILTER`: an entity filter used an unsupported operator or operand;
+ *   status `0`, with the offending `details.path`
+ * - `SCHEMA_MISMATCH`: a record or input failed its table's schema; status `0`,
+ *   with `details.table`, `details.source`, and every issue in `details.issues`
+ * - `MUTATION_DISCARDED`: an offline mutation was dropped because another user
+ *   signed in; status `0`
+ *
+ * @example
+ * ```typescript
+ * function describe(code: MitraErrorCode): string {
+ *   switch (code) {
+ *     case 'NETWORK_ERROR': return 'You appear to be offline';
+ *     case 'REQUEST_TIMEOUT': return 'The server took too long to respond';
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export type MitraErrorCode =
+  | 'NETWORK_ERROR'
+  | 'INVALID_JSON'
+  | 'REQUEST_ABORTED'
+  | 'REQUEST_TIMEOUT'
+  | 'REDIRECT_NOT_ALLOWED'
+  | 'INVALID_CONFIGURATION'
+  | 'INVALID_RESPONSE'
+  | 'FUNCTION_EXECUTION_FAILED'
+  | 'FUNCTION_EXECUTION_TIMEOUT'
+  | 'INVALID_FILTER'
+  | 'SCHEMA_MISMATCH'
+  | 'MUTATION_DISCARDED';
+
 /**
  * Error thrown when a Mitra API request fails.
  *
@@ -297,8 +714,11 @@ export class MitraApiError extends Error {
     message: string,
     /** HTTP status code (e.g., 400, 401, 404, 500) */
     public readonly status: number,
-    /** Application-specific error code (e.g., 'ENTITY_NOT_FOUND', 'VALIDATION_ERROR') */
-    public readonly code?: string,
+    /**
+     * SDK error code (see {@link MitraErrorCode}) or the application-specific
+     * code returned by the API (e.g., 'ENTITY_NOT_FOUND', 'VALIDATION_ERROR')
+     */
+    public readonly code?: MitraErrorCode | (string & {}),
     /** Additional error details from the server response */
     public readonly details?: unknown
   ) {
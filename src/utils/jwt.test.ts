@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { decodeJwtExpiry } from './jwt';
+import { createJwt } from '../test-utils';
+
+describe('decodeJwtExpiry', () => {
+  it('should return the exp claim in milliseconds', () => {
+    expect(decodeJwtExpiry(createJwt({ sub: 'u1', exp: 1_800_000_000 }))).toBe(1_800_000_000_000);
+  });
+
+  it('should decode base64url payloads with multi-byte characters', () => {
+    const token = createJwt({ name: 'José ~~~ ???', exp: 1_800_000_000 });
+
+    expect(decodeJwtExpiry(token)).toBe(1_800_000_000_000);
+  });
+
+  it.each([
+    ['an opaque token', 'access-123'],
+    ['a malformed payload', 'header.not-json.signature'],
+    ['a payload without exp', createJwt({ sub: 'u1' })],
+    ['a non-numeric exp', createJwt({ exp: '1800000000' })],
+    ['a non-object payload', createJwt(42)],
+  ])('should return null for %s', (_label, token) => {
+    expect(decodeJwtExpiry(token)).toBeNull();
+  });
+});
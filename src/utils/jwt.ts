@@ -0,0 +1,28 @@
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Reads the `exp` claim of a JWT without verifying its signature.
+ *
+ * @param token - Compact-serialized JWT.
+ * @returns Expiry as epoch milliseconds, or null when the token is not a JWT
+ *          or has no numeric `exp` claim.
+ */
+export function decodeJwtExpiry(token: string): number | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const claims: unknown = JSON.parse(decodeBase64Url(payload));
+    if (!claims || typeof claims !== 'object') return null;
+    const { exp } = claims as { exp?: unknown };
+    return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache, queryCacheKey, tableCacheKey } from './query-cache';
+
+const key = tableCacheKey('Task', 'list', []);
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('QueryCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should call the loader every time when disabled', async () => {
+    const cache = new QueryCache();
+    const load = vi.fn().mockResolvedValue([1]);
+    const controller = new AbortController();
+
+    await cache.read(key, load, controller.signal);
+    await cache.read(key, load);
+
+    expect(cache.enabled).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(load).toHaveBeenCalledWith(controller.signal);
+  });
+
+  it('should serve fresh values and reload after the TTL', async () => {
+    const cache = new QueryCache({ ttlMs: 1000 });
+    const load = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    await expect(cache.read(key, load)).resolves.toBe('first');
+    vi.advanceTimersByTime(999);
+    await expect(cache.read(key, load)).resolves.toBe('first');
+    vi.advanceTimersByTime(1);
+    await expect(cache.read(key, load)).resolves.toBe('second');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one request between concurrent reads', async () => {
+    const cache = new QueryCache(true);
+    const response = deferred<string>();
+    const load = vi.fn(() => response.promise);
+
+    const reads = [cache.read(key, load), cache.read(key, load)];
+    response.resolve('rows');
+
+    await expect(Promise.all(reads)).resolves.toEqual(['rows', 'rows']);
+    expect(load).toHaveBeenCalledOnce();
+  });
+
+  it('should return stale values while revalidating in the background', async () => {
+    const cache = new QueryCache({ ttlMs: 1000, staleWhileRevalidateMs: 5000 });
+    const refresh = deferred<string>();
+    const load = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce('first')
+      .mockReturnValueOnce(refresh.promise);
+
+    await cache.read(key, load);
+    vi.advanceTimersByTime(2000);
+
+    await expect(cache.read(key, load)).resolves.toBe('first');
+    await expect(cache.read(key, load)).resolves.toBe('first');
+    expect(load).toHaveBeenCalledTimes(2);
+
+    refresh.resolve('second');
+    await refresh.promise;
+    await expect(cache.read(key, load)).resolves.toBe('second');
+  });
+
+  it('should invalidate table reads, query results, and in-flight requests', async () => {
+    const cache = new QueryCache(true);
+    const query = queryCacheKey('report', { year: 2024 });
+    const other = tableCacheKey('Order', 'get', ['1']);
+    const pending = deferred<string>();
+    const load = vi.fn().mockResolvedValue('fresh');
+
+    await cache.read(query, load);
+    await cache.read(other, load);
+    const inFlight = cache.read(key, () => pending.promise);
+    cache.invalidateTable('Task');
+    pending.resolve('outdated');
+
+    await expect(inFlight).resolves.toBe('outdated');
+    await expect(cache.read(key, load)).resolves.toBe('fresh');
+    await cache.read(query, load);
+    await cache.read(other, load);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not cache failures', async () => {
+    const cache = new QueryCache(true);
+    const load = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue('rows');
+
+    await expect(cache.read(key, load)).rejects.toThrow('offline');
+    await expect(cache.read(key, load)).resolves.toBe('rows');
+  });
+
+  it('should abandon only the aborted caller', async () => {
+    const cache = new QueryCache(true);
+    const response = deferred<string>();
+    const controller = new AbortController();
+
+    const aborted = cache.read(key, () => response.promise, controller.signal);
+    const other = cache.read(key, () => response.promise);
+    controller.abort();
+    response.resolve('rows');
+
+    await expect(aborted).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    await expect(other).resolves.toBe('rows');
+  });
+
+  it('should evict the least recently used entries', async () => {
+    const cache = new QueryCache({ maxEntries: 2 });
+    const load = vi.fn().mockResolvedValue('rows');
+    const [first, second, third] = ['1', '2', '3'].map((id) => tableCacheKey('Task', 'get', [id]));
+
+    await cache.read(first, load);
+    await cache.read(second, load);
+    await cache.read(first, load);
+    await cache.read(third, load);
+    await cache.read(first, load);
+    await cache.read(second, load);
+
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+});
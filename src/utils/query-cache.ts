@@ -0,0 +1,192 @@
+import { createAbortError } from './http-client';
+
+/** Options for the client-side read cache. */
+export interface CacheOptions {
+  /** How long a cached read is served without a request, in milliseconds. Defaults to 30 000. */
+  ttlMs?: number;
+  /**
+   * How long after `ttlMs` a stale read is still returned immediately while it
+   * refreshes in the background, in milliseconds. Defaults to `0`.
+   */
+  staleWhileRevalidateMs?: number;
+  /** Maximum number of cached reads; the least recently used are evicted first. Defaults to 500. */
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value?: unknown;
+  storedAt?: number;
+  pending?: Promise<unknown>;
+}
+
+const DEFAULT_TTL_MS = 30_000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+function tablePrefix(tableName: string): string {
+  return `entities/${encodeURIComponent(tableName)}/`;
+}
+
+function queryPrefix(queryId?: string): string {
+  return queryId === undefined ? 'queries/' : `queries/${encodeURIComponent(queryId)}/`;
+}
+
+/**
+ * Cache key of an entity table read.
+ * @internal
+ */
+export function tableCacheKey(tableName: string, operation: string, args: unknown[]): string {
+  return `${tablePrefix(tableName)}${operation}/${JSON.stringify(args)}`;
+}
+
+/**
+ * Cache key of a custom query result.
+ * @internal
+ */
+export function queryCacheKey(queryId: string, parameters: unknown): string {
+  return `${queryPrefix(queryId)}${JSON.stringify(parameters ?? {})}`;
+}
+
+/**
+ * Cache of entity and custom query reads, shared by the modules of one client.
+ *
+ * Concurrent reads with the same key share one request. Successful entity
+ * writes invalidate the reads of their table and every cached custom query
+ * result, since queries may read any table.
+ */
+export class QueryCache {
+  /** Whether reads are cached. `false` unless the client was created with `cache`. */
+  readonly enabled: boolean;
+  private readonly ttlMs: number;
+  private readonly staleMs: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(options: CacheOptions | boolean = false) {
+    const config = typeof options === 'object' ? options : {};
+    this.enabled = options !== false;
+    this.ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
+    this.staleMs = config.staleWhileRevalidateMs ?? 0;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /** Drops the cached reads of one table, and every cached custom query result. */
+  invalidateTable(tableName: string): void {
+    this.invalidate(tablePrefix(tableName));
+    this.invalidate(queryPrefix());
+  }
+
+  /** Drops the cached results of one custom query, or of all queries without an id. */
+  invalidateQuery(queryId?: string): void {
+    this.invalidate(queryPrefix(queryId));
+  }
+
+  /** Drops every cached read. */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Returns the cached value for `key`, or loads it. A cached `load` runs
+   * without the caller's signal so other callers waiting on the same request
+   * are not aborted; `signal` only abandons this caller's wait.
+   * @internal
+   */
+  read<T>(
+    key: string,
+    load: (signal?: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (!this.enabled) return load(signal);
+
+    const entry = this.entries.get(key);
+    if (entry?.storedAt !== undefined) {
+      const age = Date.now() - entry.storedAt;
+      if (age < this.ttlMs) {
+        this.touch(key, entry);
+        return Promise.resolve(entry.value as T);
+      }
+      if (age < this.ttlMs + this.staleMs) {
+        this.touch(key, entry);
+        // Failures of a background refresh keep the stale value until it expires
+        this.fetch(key, entry, () => load()).catch(() => undefined);
+        return Promise.resolve(entry.value as T);
+      }
+    }
+
+    const current = entry?.pending ? entry : {};
+    if (current !== entry) this.touch(key, current);
+    return this.wait(this.fetch(key, current, () => load()) as Promise<T>, signal);
+  }
+
+  /**
+   * Replaces the cached values of a table with `patch(value)` and returns a
+   * function that restores the values still holding the patched result.
+   * @internal
+   */
+  patchTable(tableName: string, patch: (value: unknown) => unknown): () => void {
+    const prefix = tablePrefix(tableName);
+    const patched: Array<{ key: string; entry: CacheEntry; before: unknown; after: unknown }> = [];
+    for (const [key, entry] of this.entries) {
+      if (!key.startsWith(prefix) || entry.storedAt === undefined) continue;
+      const before = entry.value;
+      const after = patch(before);
+      if (after === before) continue;
+      entry.value = after;
+      patched.push({ key, entry, before, after });
+    }
+    return () => {
+      for (const { key, entry, before, after } of patched) {
+        if (this.entries.get(key) === entry && entry.value === after) entry.value = before;
+      }
+    };
+  }
+
+  private fetch(key: string, entry: CacheEntry, load: () => Promise<unknown>): Promise<unknown> {
+    if (entry.pending) return entry.pending;
+    const pending = load().then(
+      (value) => {
+        // An invalidation while the request was in flight discards its result
+        if (this.entries.get(key) === entry) {
+          entry.value = value;
+          entry.storedAt = Date.now();
+        }
+        entry.pending = undefined;
+        return value;
+      },
+      (error: unknown) => {
+        entry.pending = undefined;
+        if (this.entries.get(key) === entry && entry.storedAt === undefined) {
+          this.entries.delete(key);
+        }
+        throw error;
+      }
+    );
+    entry.pending = pending;
+    return pending;
+  }
+
+  private wait<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(createAbortError());
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(createAbortError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+  }
+
+  private invalidate(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
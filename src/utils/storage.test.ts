@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createIndexedDBStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  createSessionStorage,
+} from './storage';
+import { mockLocalStorage } from '../test-utils';
+
+describe('storage adapters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep values in memory per adapter instance', () => {
+    const storage = createMemoryStorage();
+    const other = createMemoryStorage();
+
+    storage.setItem('key', 'value');
+
+    expect(storage.getItem('key')).toBe('value');
+    expect(other.getItem('key')).toBeNull();
+
+    storage.removeItem('key');
+    expect(storage.getItem('key')).toBeNull();
+  });
+
+  it('should delegate to localStorage resolved at call time', () => {
+    const storage = createLocalStorage();
+    const local = mockLocalStorage();
+
+    storage.setItem('key', 'value');
+
+    expect(local.setItem).toHaveBeenCalledWith('key', 'value');
+    expect(storage.getItem('key')).toBe('value');
+    storage.removeItem('key');
+    expect(local.removeItem).toHaveBeenCalledWith('key');
+  });
+
+  it('should delegate to sessionStorage', () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+    const storage = createSessionStorage();
+
+    storage.setItem('key', 'value');
+
+    expect(store.get('key')).toBe('value');
+    expect(storage.getItem('key')).toBe('value');
+  });
+
+  it('should be a no-op when web storage is unavailable', () => {
+    vi.stubGlobal('localStorage', undefined);
+    vi.stubGlobal('sessionStorage', undefined);
+
+    for (const storage of [createLocalStorage(), createSessionStorage()]) {
+      expect(() => storage.setItem('key', 'value')).not.toThrow();
+      expect(storage.getItem('key')).toBeNull();
+      expect(() => storage.removeItem('key')).not.toThrow();
+    }
+  });
+
+  it('should persist values in IndexedDB', async () => {
+    const stores = new Map<string, Map<string, unknown>>();
+    const request = (run: () => unknown) => {
+      const pending: Record<string, unknown> = {};
+      queueMicrotask(() => {
+        pending.result = run();
+        (pending.onupgradeneeded as (() => void) | undefined)?.();
+        (pending.onsuccess as () => void)();
+      });
+      return pending;
+    };
+    const open = vi.fn((name: string) =>
+      request(() => ({
+        createObjectStore: (store: string) => stores.set(`${name}/${store}`, new Map()),
+        transaction: (store: string) => ({
+          objectStore: () => {
+            const values = stores.get(`${name}/${store}`)!;
+            return {
+              get: (key: string) => request(() => values.get(key)),
+              put: (value: string, key: string) => request(() => values.set(key, value)),
+              delete: (key: string) => request(() => values.delete(key)),
+            };
+          },
+        }),
+      }))
+    );
+    vi.stubGlobal('indexedDB', { open });
+    const storage = createIndexedDBStorage('app');
+
+    await storage.setItem('key', 'value');
+    await expect(storage.getItem('key')).resolves.toBe('value');
+    await storage.removeItem('key');
+    await expect(storage.getItem('key')).resolves.toBeNull();
+    expect(open).toHaveBeenCalledOnce();
+    expect(open).toHaveBeenCalledWith('app', 1);
+  });
+
+  it('should fall back to memory when IndexedDB is unavailable', () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const storage = createIndexedDBStorage();
+
+    storage.setItem('key', 'value');
+
+    expect(storage.getItem('key')).toBe('value');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Key-value storage used to persist the auth session.
+ *
+ * Methods may be synchronous (like `localStorage`) or return promises
+ * (like IndexedDB wrappers, encrypted stores, or cookie APIs).
+ *
+ * @example
+ * ```typescript
+ * const cookieStorage: StorageAdapter = {
+ *   getItem: (key) => cookies.get(key) ?? null,
+ *   setItem: (key, value) => cookies.set(key, value, { secure: true }),
+ *   removeItem: (key) => cookies.remove(key),
+ * };
+ * ```
+ */
+export interface StorageAdapter {
+  /** Returns the stored value, or null when the key is missing. */
+  getItem(key: string): string | null | Promise<string | null>;
+  /** Stores a value under the key, replacing any previous value. */
+  setItem(key: string, value: string): void | Promise<void>;
+  /** Removes the key. Removing a missing key is a no-op. */
+  removeItem(key: string): void | Promise<void>;
+}
+
+function createWebStorage(getStorage: () => Storage | undefined): StorageAdapter {
+  return {
+    getItem: (key) => getStorage()?.getItem(key) ?? null,
+    setItem: (key, value) => getStorage()?.setItem(key, value),
+    removeItem: (key) => getStorage()?.removeItem(key),
+  };
+}
+
+/**
+ * Creates a storage adapter that keeps values in memory only.
+ * Useful for SSR, tests, and sessions that must not outlive the page.
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a storage adapter backed by `localStorage`.
+ * Becomes a no-op when `localStorage` is not available (e.g., during SSR).
+ */
+export function createLocalStorage(): StorageAdapter {
+  return createWebStorage(() =>
+    typeof localStorage === 'undefined' ? undefined : localStorage
+  );
+}
+
+/**
+ * Creates a storage adapter backed by `sessionStorage`.
+ * Becomes a no-op when `sessionStorage` is not available (e.g., during SSR).
+ */
+export function createSessionStorage(): StorageAdapter {
+  return createWebStorage(() =>
+    typeof sessionStorage === 'undefined' ? undefined : sessionStorage
+  );
+}
+
+const INDEXED_DB_STORE = 'keyval';
+
+/**
+ * Creates a storage adapter backed by IndexedDB, for values too large for
+ * `localStorage` such as the offline mutation queue. Falls back to memory when
+ * IndexedDB is not available (e.g., during SSR or in tests).
+ */
+export function createIndexedDBStorage(databaseName = 'mitra'): StorageAdapter {
+  if (typeof indexedDB === 'undefined') return createMemoryStorage();
+
+  let database: Promise<IDBDatabase> | undefined;
+  const open = () =>
+    (database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(INDEXED_DB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const store = (await open()).transaction(INDEXED_DB_STORE, mode).objectStore(INDEXED_DB_STORE);
+    return new Promise((resolve, reject) => {
+      const request = action(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => {
+      const value: unknown = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
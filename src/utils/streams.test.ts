@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseServerSentEvents, readLines } from './streams';
+import { createByteStream } from '../test-utils';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('stream readers', () => {
+  it('should split lines across chunks and multi-byte characters', async () => {
+    const accented = new TextEncoder().encode('ação\n');
+    const stream = createByteStream([
+      'first\r\nsec',
+      'ond\n',
+      accented.slice(0, 2),
+      accented.slice(2),
+      'last',
+    ]);
+
+    await expect(collect(readLines(stream))).resolves.toEqual(['first', 'second', 'ação', 'last']);
+  });
+
+  it('should parse Server-Sent Events', async () => {
+    const stream = createByteStream([
+      ': keep-alive\n\n',
+      'event: log\nid: 1\ndata: {"a":\ndata: 1}\n\n',
+      'data: plain\n\n',
+      'event: empty\n\n',
+    ]);
+
+    await expect(collect(parseServerSentEvents(stream))).resolves.toEqual([
+      { event: 'log', data: '{"a":\n1}', id: '1' },
+      { event: 'message', data: 'plain', id: '1' },
+    ]);
+  });
+
+  it('should cancel the stream when the consumer stops early', async () => {
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull: (controller) => controller.enqueue(new TextEncoder().encode('line\n')),
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+
+    for await (const line of readLines(stream)) {
+      expect(line).toBe('line');
+      break;
+    }
+
+    expect(cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * One message received from a Server-Sent Events stream.
+ * @internal
+ */
+export interface ServerSentEvent {
+  /** Event type (`message` when the stream does not name one). */
+  event: string;
+  /** Data lines joined with newlines. */
+  data: string;
+  /** Last event ID seen on the stream, if any. */
+  id?: string;
+}
+
+/**
+ * Reads a byte stream as UTF-8 text lines, accepting `\n` and `\r\n` endings.
+ * Cancels the stream when the consumer stops early.
+ *
+ * @internal
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) yield line.endsWith('\r') ? line.slice(0, -1) : line;
+      if (done) break;
+    }
+    if (buffer) yield buffer;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Parses a `text/event-stream` body into events. Comments and unknown fields
+ * are ignored; events without data are skipped, as in `EventSource`.
+ *
+ * @internal
+ */
+export async function* parseServerSentEvents(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+
+  for await (const line of readLines(stream)) {
+    if (line === '') {
+      if (data.length > 0) yield { event: event || 'message', data: data.join('\n'), id };
+      event = '';
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+}
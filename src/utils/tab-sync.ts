@@ -0,0 +1,45 @@
+/**
+ * Messaging and mutual exclusion between browser tabs of the same origin.
+ * @internal
+ */
+export interface TabSync<T> {
+  /** Sends a message to every other tab listening on the same name. */
+  post(message: T): void;
+  /** Runs `task` while holding a lock shared by every tab using the same name. */
+  withLock<R>(task: () => Promise<R>): Promise<R>;
+  /** Stops listening and releases the channel. */
+  close(): void;
+}
+
+/**
+ * Creates a tab sync over `BroadcastChannel` and the Web Locks API.
+ *
+ * Returns null outside browsers. When Web Locks are unavailable, `withLock`
+ * runs the task directly, so only in-tab deduplication applies.
+ *
+ * @internal
+ */
+export function createTabSync<T>(name: string, onMessage: (message: T) => void): TabSync<T> | null {
+  if (
+    typeof globalThis.window?.addEventListener !== 'function' ||
+    typeof BroadcastChannel === 'undefined'
+  ) {
+    return null;
+  }
+
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: MessageEvent<T>) => onMessage(event.data);
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks;
+
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch {
+        // Channel might be closed
+      }
+    },
+    withLock: async (task) => (locks ? await locks.request(name, task) : task()),
+    close: () => channel.close(),
+  };
+}